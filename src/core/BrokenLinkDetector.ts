@@ -0,0 +1,175 @@
+import { TFile } from 'obsidian';
+import ImageMasterPlugin from '../main';
+import { BrokenImageLink, JournalEntry, RepairCandidate, isImageFile } from '../types';
+import { applyTextEdits } from './LinkParser';
+
+// Minimum name similarity (0-1) for a "similar name" candidate
+const SIMILAR_NAME_THRESHOLD = 0.6;
+const MAX_CANDIDATES = 5;
+
+/**
+ * BrokenLinkDetector finds and repairs image embeds whose target no longer resolves:
+ * - Scan notes with LinkUpdater.validateImageLinks
+ * - Suggest replacements by content hash, file name and similar names
+ * - Retarget, remove or comment out broken embeds (recorded in the operation journal)
+ */
+export class BrokenLinkDetector {
+  private plugin: ImageMasterPlugin;
+
+  constructor(plugin: ImageMasterPlugin) {
+    this.plugin = plugin;
+  }
+
+  /**
+   * Scan all notes for image embeds that don't resolve
+   */
+  async scanBrokenLinks(): Promise<BrokenImageLink[]> {
+    const broken: BrokenImageLink[] = [];
+
+    for (const note of this.plugin.app.vault.getMarkdownFiles()) {
+      try {
+        const results = await this.plugin.linkUpdater.validateImageLinks(note);
+        if (results.every((result) => result.exists)) continue;
+
+        const content = await this.plugin.app.vault.cachedRead(note);
+        for (const { exists, parsed } of results) {
+          if (exists || !isImageFile(parsed.path)) continue;
+          if (/^[a-z][a-z0-9+.-]*:/i.test(parsed.path.trim())) continue; // External URL
+
+          broken.push({
+            notePath: note.path,
+            link: parsed,
+            targetPath: this.plugin.linkUpdater.getLinkTargetPath(parsed, note.path),
+            line: content.substring(0, parsed.start).split('\n').length - 1,
+          });
+        }
+      } catch (error) {
+        console.error(`Failed to validate image links in ${note.path}:`, error);
+      }
+    }
+
+    return broken;
+  }
+
+  /**
+   * Suggest replacement images for a broken link, best match first
+   */
+  findCandidates(broken: BrokenImageLink): RepairCandidate[] {
+    const candidates = new Map<string, RepairCandidate>();
+    const addCandidate = (candidate: RepairCandidate) => {
+      const existing = candidates.get(candidate.path);
+      if (!existing || existing.score < candidate.score) {
+        candidates.set(candidate.path, candidate);
+      }
+    };
+
+    // Same content: the hash cache or the trash may still know the missing file
+    const hash = this.plugin.hashService.getLastKnownHash(broken.targetPath);
+    if (hash) {
+      for (const path of this.plugin.hashService.findCachedPathsByHash(hash)) {
+        addCandidate({ path, reason: 'hash', score: 3 });
+      }
+    }
+
+    const targetName = (broken.targetPath.split('/').pop() || '').toLowerCase();
+    const targetStem = this.normalizeName(targetName);
+
+    for (const image of this.plugin.app.vault.getFiles()) {
+      if (!isImageFile(image.path)) continue;
+
+      if (image.name.toLowerCase() === targetName) {
+        addCandidate({ path: image.path, reason: 'name', score: 2 });
+        continue;
+      }
+
+      const similarity = this.getSimilarity(targetStem, this.normalizeName(image.name));
+      if (similarity >= SIMILAR_NAME_THRESHOLD) {
+        addCandidate({ path: image.path, reason: 'similar', score: 1 + similarity * 0.9 });
+      }
+    }
+
+    return Array.from(candidates.values())
+      .sort((a, b) => b.score - a.score || a.path.length - b.path.length)
+      .slice(0, MAX_CANDIDATES);
+  }
+
+  /**
+   * Point a broken link (and identical ones in the same note) at an existing image
+   */
+  async fixLink(broken: BrokenImageLink, imagePath: string, entry: JournalEntry): Promise<boolean> {
+    const note = this.plugin.app.vault.getAbstractFileByPath(broken.notePath);
+    if (!(note instanceof TFile)) return false;
+
+    let changed = false;
+    await this.plugin.journal.trackModify(entry, note, () =>
+      this.plugin.app.vault.process(note, (content) => {
+        const updated = this.plugin.linkUpdater.rewriteLinksInContent(
+          content,
+          note.path,
+          broken.targetPath,
+          imagePath
+        );
+        changed = updated !== content;
+        return updated;
+      })
+    );
+
+    return changed;
+  }
+
+  /**
+   * Remove a broken embed, or wrap it in an Obsidian comment (%%...%%)
+   */
+  async removeLink(broken: BrokenImageLink, mode: 'remove' | 'comment', entry: JournalEntry): Promise<boolean> {
+    const note = this.plugin.app.vault.getAbstractFileByPath(broken.notePath);
+    if (!(note instanceof TFile)) return false;
+
+    let changed = false;
+    await this.plugin.journal.trackModify(entry, note, () =>
+      this.plugin.app.vault.process(note, (content) => {
+        // The note may have been edited since the scan; find the embed again
+        const links = this.plugin.linkUpdater.parseImageLinks(content);
+        const link =
+          links.find((l) => l.start === broken.link.start && l.fullMatch === broken.link.fullMatch) ||
+          links.find((l) => l.fullMatch === broken.link.fullMatch);
+        if (!link) return content;
+
+        changed = true;
+        const text = mode === 'comment' ? `%%${link.fullMatch}%%` : '';
+        return applyTextEdits(content, [{ start: link.start, end: link.end, text }]);
+      })
+    );
+
+    return changed;
+  }
+
+  /**
+   * Lowercase file name without extension and separators, for fuzzy matching
+   */
+  private normalizeName(name: string): string {
+    return name.replace(/\.[^.]+$/, '').toLowerCase().replace(/[\s_\-.()]+/g, '');
+  }
+
+  /**
+   * Name similarity from 0 to 1 based on Levenshtein distance
+   */
+  private getSimilarity(a: string, b: string): number {
+    if (!a || !b) return 0;
+    if (a === b) return 1;
+
+    const maxLength = Math.max(a.length, b.length);
+    if (Math.abs(a.length - b.length) / maxLength > 1 - SIMILAR_NAME_THRESHOLD) return 0;
+
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+      const current = [i];
+      for (let j = 1; j <= b.length; j++) {
+        const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+        current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      }
+      previous = current;
+    }
+
+    return 1 - previous[b.length] / maxLength;
+  }
+}
@@ -0,0 +1,154 @@
+import { TFile } from 'obsidian';
+import ImageMasterPlugin from '../main';
+import { DuplicateGroup, KeeperRule } from '../types';
+import { t } from '../i18n';
+
+/**
+ * DuplicateManager resolves groups of identical images:
+ * - Group images by content hash, or by perceptual hash for near-duplicates
+ * - Pick which copy to keep, by hand or by rule
+ * - Merge: point every reference at the keeper and trash the other copies
+ */
+export class DuplicateManager {
+  private plugin: ImageMasterPlugin;
+
+  constructor(plugin: ImageMasterPlugin) {
+    this.plugin = plugin;
+  }
+
+  /**
+   * Find groups of identical images, largest groups first
+   */
+  async findDuplicateGroups(): Promise<DuplicateGroup[]> {
+    await this.plugin.hashIndexer.indexAll(false);
+    const duplicates = await this.plugin.hashService.findAllDuplicates();
+
+    return Array.from(duplicates.entries())
+      .map(([hash, paths]) => ({ hash, paths: [...paths].sort() }))
+      .sort((a, b) => b.paths.length - a.paths.length || a.paths[0].localeCompare(b.paths[0]));
+  }
+
+  /**
+   * Find groups of visually similar images within a perceptual-hash distance, largest groups first
+   */
+  async findSimilarGroups(maxDistance: number): Promise<DuplicateGroup[]> {
+    await this.plugin.hashIndexer.indexAll(true);
+    const similar = await this.plugin.hashService.findAllSimilar(maxDistance);
+
+    return similar
+      .map(({ centre, paths }) => ({ hash: centre, paths: [...paths].sort(), maxDistance }))
+      .sort((a, b) => b.paths.length - a.paths.length || a.paths[0].localeCompare(b.paths[0]));
+  }
+
+  /**
+   * Whether every other image in the group is close enough to the keeper to be merged into it.
+   * Always true for groups of identical images.
+   */
+  canMerge(group: DuplicateGroup, keeper: string): boolean {
+    const { maxDistance } = group;
+    if (maxDistance === undefined) return true;
+
+    return group.paths.every((path) => {
+      if (path === keeper) return true;
+      const distance = this.plugin.hashService.getPerceptualDistance(path, keeper);
+      return distance !== null && distance <= maxDistance;
+    });
+  }
+
+  /**
+   * Pick the copy to keep according to a rule; ties go to the shorter path.
+   * For similar groups only images every other member can be merged into are considered.
+   */
+  async pickKeeper(group: DuplicateGroup, rule: KeeperRule): Promise<string> {
+    await this.plugin.referenceIndex.ready;
+    const candidates = group.paths.filter((path) => this.canMerge(group, path));
+    const byPath = (candidates.length > 0 ? candidates : [...group.paths]).sort(
+      (a, b) => a.length - b.length || a.localeCompare(b)
+    );
+
+    switch (rule) {
+      case 'shortestPath':
+        return byPath[0];
+
+      case 'mostReferenced': {
+        const counts = new Map(byPath.map((path) => [path, this.plugin.linkUpdater.getReferenceCount(path)]));
+        return byPath.reduce((best, path) => ((counts.get(path) ?? 0) > (counts.get(best) ?? 0) ? path : best));
+      }
+
+      case 'storageLocation':
+        for (const path of byPath) {
+          if (await this.isInStorageLocation(path)) return path;
+        }
+        return byPath[0];
+    }
+  }
+
+  /**
+   * Merge a group onto the keeper: rewrite references to the other copies, then trash them.
+   * Recorded as one journal entry. Returns the number of copies removed.
+   */
+  async merge(group: DuplicateGroup, keeper: string): Promise<number> {
+    // References missed by an unfinished index would be left pointing at trashed copies
+    await this.plugin.referenceIndex.ready;
+
+    if (!this.canMerge(group, keeper)) {
+      console.warn(`Not merging into ${keeper}: some images in the group are not similar enough to it`);
+      return 0;
+    }
+
+    const { vault } = this.plugin.app;
+    const others = group.paths.filter((path) => path !== keeper);
+    const entry = this.plugin.journal.begin(
+      t('journal.title.mergeDuplicates', { count: others.length, keeper })
+    );
+    let removed = 0;
+
+    try {
+      for (const path of others) {
+        const file = vault.getAbstractFileByPath(path);
+        if (!(file instanceof TFile)) continue;
+
+        try {
+          for (const sourcePath of this.plugin.linkUpdater.findNotesReferencingImage(path)) {
+            const source = vault.getAbstractFileByPath(sourcePath);
+            if (!(source instanceof TFile)) continue;
+
+            await this.plugin.journal.trackModify(entry, source, () =>
+              source.extension === 'canvas'
+                ? this.plugin.linkUpdater.updateLinksInCanvas(source, path, keeper)
+                : this.plugin.linkUpdater.updateLinksInNote(source, path, keeper)
+            );
+          }
+
+          await this.plugin.journal.trashFile(entry, file);
+          removed++;
+        } catch (error) {
+          console.error(`Failed to merge duplicate ${path} into ${keeper}:`, error);
+        }
+      }
+    } finally {
+      await this.plugin.journal.commit(entry);
+    }
+
+    return removed;
+  }
+
+  /**
+   * Whether an image sits in the folder the storage settings use for a note that references it
+   */
+  private async isInStorageLocation(imagePath: string): Promise<boolean> {
+    const folder = imagePath.substring(0, imagePath.lastIndexOf('/'));
+    const name = imagePath.split('/').pop() || '';
+
+    for (const notePath of this.plugin.linkUpdater.findNotesReferencingImage(imagePath)) {
+      const note = this.plugin.app.vault.getAbstractFileByPath(notePath);
+      if (!(note instanceof TFile) || note.extension !== 'md') continue;
+
+      if ((await this.plugin.fileManager.getStorageFolder(note, name)) === folder) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+}
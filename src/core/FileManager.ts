@@ -1,6 +1,37 @@
-import { TFile, TFolder, normalizePath, Notice, MarkdownView } from 'obsidian';
+import { TFile, TFolder, normalizePath, Notice, MarkdownView, EditorPosition, debounce, getAllTags } from 'obsidian';
 import ImageMasterPlugin from '../main';
-import { PatternVariables, isImageFile } from '../types';
+import {
+  ImageMasterSettings,
+  StorageRule,
+  PatternVariables,
+  PathTemplateVariables,
+  LinkFormat,
+  LinkTemplateVariables,
+  CounterState,
+  isImageFile,
+  matchGlob,
+} from '../types';
+import { encodeMarkdownTarget } from './LinkParser';
+import { PlannedMove } from './OperationPlanner';
+import { t } from '../i18n';
+
+// Matches {counter} and zero-padded {counter:N}
+const COUNTER_TOKEN = /\{counter(?::(\d+))?\}/g;
+
+// Frontmatter keys a note can use to override where and how its images are saved
+const FRONTMATTER_FOLDER_KEY = 'imagemaster-folder';
+const FRONTMATTER_PATTERN_KEY = 'imagemaster-pattern';
+
+// Note moves arriving within this time (e.g. a moved folder's notes) are reviewed as one plan
+const NOTE_MOVE_BATCH_MS = 500;
+
+interface NoteMoveBatch {
+  notes: string[];
+  moves: PlannedMove[];
+  cleanupFolders: Set<string>;
+  done: Promise<void>;
+  resolve: () => void;
+}
 
 /**
  * FileManager handles image file operations:
@@ -11,18 +42,214 @@ import { PatternVariables, isImageFile } from '../types';
  */
 export class FileManager {
   private plugin: ImageMasterPlugin;
+  private counters: CounterState = {};
+  private imageWidths: Map<string, number> = new Map();
+  private readonly COUNTER_FILE = '.image-master/counters.json';
+  private noteMoveBatch: NoteMoveBatch | null = null;
+  private reviewNoteMoves = debounce(() => this.runNoteMoveBatch(), NOTE_MOVE_BATCH_MS, true);
 
   constructor(plugin: ImageMasterPlugin) {
     this.plugin = plugin;
   }
 
   /**
-   * Determine the save path for a new image based on settings
+   * Load {counter} sequences from disk
+   */
+  async loadCounters(): Promise<void> {
+    try {
+      const counterPath = normalizePath(this.COUNTER_FILE);
+      if (await this.plugin.app.vault.adapter.exists(counterPath)) {
+        const content = await this.plugin.app.vault.adapter.read(counterPath);
+        this.counters = JSON.parse(content);
+      }
+    } catch (error) {
+      console.error('Failed to load counters:', error);
+      this.counters = {};
+    }
+  }
+
+  /**
+   * Save {counter} sequences to disk
    */
-  async determineSavePath(activeFile: TFile, originalFilename: string): Promise<string> {
+  private async saveCounters(): Promise<void> {
+    try {
+      const counterPath = normalizePath(this.COUNTER_FILE);
+      const counterFolder = counterPath.substring(0, counterPath.lastIndexOf('/'));
+
+      if (!(await this.plugin.app.vault.adapter.exists(counterFolder))) {
+        await this.plugin.app.vault.adapter.mkdir(counterFolder);
+      }
+
+      await this.plugin.app.vault.adapter.write(counterPath, JSON.stringify(this.counters, null, 2));
+    } catch (error) {
+      console.error('Failed to save counters:', error);
+    }
+  }
+
+  /**
+   * Find the first enabled storage rule that applies to a note.
+   * notePath defaults to the note's current path; pass the old path to evaluate a note before a move.
+   */
+  findMatchingRule(noteFile: TFile, notePath: string = noteFile.path): { rule: StorageRule; index: number } | null {
+    const rules = this.plugin.settings.storageRules;
+
+    for (let index = 0; index < rules.length; index++) {
+      const rule = rules[index];
+      if (rule.enabled && rule.condition.trim() && this.ruleMatches(rule, noteFile, notePath)) {
+        return { rule, index };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Get global settings with the matching storage rule and the note's own
+   * frontmatter overrides applied on top (frontmatter wins over rules)
+   */
+  getEffectiveSettings(noteFile: TFile, notePath: string = noteFile.path): ImageMasterSettings {
     const settings = this.plugin.settings;
-    const noteFolder = activeFile.path.substring(0, activeFile.path.lastIndexOf('/')) || '';
-    const noteName = activeFile.basename;
+    const effective: ImageMasterSettings = { ...settings };
+
+    const match = this.findMatchingRule(noteFile, notePath);
+    if (match) {
+      const { rule } = match;
+      effective.storageMode = rule.storageMode;
+      effective.filenamePattern = rule.filenamePattern;
+      effective.customPattern = rule.customPattern;
+      effective.linkFormat = rule.linkFormat;
+
+      if (rule.folder.trim()) {
+        if (rule.storageMode === 'template') {
+          effective.pathTemplate = rule.folder.trim();
+        } else {
+          effective.centralFolder = rule.folder.trim();
+        }
+      }
+    }
+
+    // The declared folder is treated as a path template so variables work there too
+    const declaredFolder = this.getDeclaredFolder(noteFile, notePath);
+    if (declaredFolder !== null) {
+      effective.storageMode = 'template';
+      effective.pathTemplate = declaredFolder;
+    }
+
+    const declaredPattern = this.getFrontmatterString(noteFile, FRONTMATTER_PATTERN_KEY);
+    if (declaredPattern) {
+      effective.filenamePattern = 'custom';
+      effective.customPattern = declaredPattern;
+    }
+
+    return effective;
+  }
+
+  /**
+   * Get the image folder declared in the note's frontmatter (imagemaster-folder).
+   * Values starting with "./" or "../" are resolved against the note's folder at notePath.
+   */
+  getDeclaredFolder(noteFile: TFile, notePath: string = noteFile.path): string | null {
+    const declared = this.getFrontmatterString(noteFile, FRONTMATTER_FOLDER_KEY);
+    if (!declared) return null;
+
+    if (!declared.startsWith('./') && !declared.startsWith('../')) {
+      return normalizePath(declared);
+    }
+
+    const parts = notePath.split('/').slice(0, -1);
+    for (const part of declared.split('/')) {
+      if (part === '..') {
+        parts.pop();
+      } else if (part && part !== '.') {
+        parts.push(part);
+      }
+    }
+    return normalizePath(parts.join('/') || '/');
+  }
+
+  /**
+   * Read a non-empty string value from the note's frontmatter
+   */
+  private getFrontmatterString(noteFile: TFile, key: string): string | null {
+    const value = this.plugin.app.metadataCache.getFileCache(noteFile)?.frontmatter?.[key];
+    if (typeof value !== 'string' || !value.trim()) return null;
+    return value.trim();
+  }
+
+  /**
+   * Check a single rule condition against a note
+   */
+  private ruleMatches(rule: StorageRule, noteFile: TFile, notePath: string): boolean {
+    const condition = rule.condition.trim();
+
+    switch (rule.conditionType) {
+      case 'folder':
+        return matchGlob(notePath, condition);
+
+      case 'tag': {
+        const cache = this.plugin.app.metadataCache.getFileCache(noteFile);
+        const tags = cache ? getAllTags(cache) || [] : [];
+        const wanted = condition.replace(/^#/, '').toLowerCase();
+        return tags.some((tag) => {
+          const name = tag.replace(/^#/, '').toLowerCase();
+          return name === wanted || name.startsWith(wanted + '/');
+        });
+      }
+
+      case 'frontmatter': {
+        const frontmatter = this.plugin.app.metadataCache.getFileCache(noteFile)?.frontmatter;
+        if (!frontmatter) return false;
+
+        const separator = condition.indexOf('=');
+        if (separator < 0) {
+          const value = frontmatter[condition];
+          return value !== undefined && value !== null && value !== false;
+        }
+
+        const key = condition.substring(0, separator).trim();
+        const expected = condition.substring(separator + 1).trim();
+        const value = frontmatter[key];
+        const values = Array.isArray(value) ? value : [value];
+        return values.some((v) => v !== undefined && v !== null && String(v) === expected);
+      }
+
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Determine the save path for a new image based on settings.
+   * The image bytes are needed for the content hash used by 'hash' naming and {hash}.
+   */
+  async determineSavePath(activeFile: TFile, originalFilename: string, data?: ArrayBuffer): Promise<string> {
+    const basePath = await this.getStorageFolder(activeFile, originalFilename, data);
+
+    // Ensure folder exists
+    await this.ensureFolderExists(basePath);
+
+    // Generate filename
+    const filename = await this.generateFilename(originalFilename, activeFile, basePath, data);
+
+    // Handle conflicts
+    const finalPath = await this.resolveConflict(basePath, filename);
+
+    return finalPath;
+  }
+
+  /**
+   * Resolve the folder the storage settings use for a note's images, without creating it.
+   * notePath evaluates the settings as if the note were at another path (e.g. before a move).
+   */
+  async getStorageFolder(
+    activeFile: TFile,
+    originalFilename: string,
+    data?: ArrayBuffer,
+    notePath: string = activeFile.path
+  ): Promise<string> {
+    const settings = this.getEffectiveSettings(activeFile, notePath);
+    const noteFolder = notePath.substring(0, notePath.lastIndexOf('/')) || '';
+    const noteName = (notePath.split('/').pop() || '').replace(/\.[^.]+$/, '');
 
     let basePath: string;
 
@@ -60,20 +287,15 @@ export class FileManager {
         basePath = noteFolder || '';
         break;
       }
+      case 'template': {
+        basePath = await this.resolvePathTemplate(settings.pathTemplate, activeFile, originalFilename, data, notePath);
+        break;
+      }
       default:
         basePath = settings.centralFolder;
     }
 
-    // Ensure folder exists
-    await this.ensureFolderExists(basePath);
-
-    // Generate filename
-    const filename = await this.generateFilename(originalFilename, activeFile);
-
-    // Handle conflicts
-    const finalPath = await this.resolveConflict(basePath, filename);
-
-    return finalPath;
+    return basePath;
   }
 
   /**
@@ -82,53 +304,110 @@ export class FileManager {
   private formatDatePath(pattern: string): string {
     const now = new Date();
     return pattern
-      .replace('{year}', now.getFullYear().toString())
-      .replace('{month}', String(now.getMonth() + 1).padStart(2, '0'))
-      .replace('{day}', String(now.getDate()).padStart(2, '0'));
+      .replace(/\{year\}/g, now.getFullYear().toString())
+      .replace(/\{month\}/g, String(now.getMonth() + 1).padStart(2, '0'))
+      .replace(/\{day\}/g, String(now.getDate()).padStart(2, '0'));
+  }
+
+  /**
+   * Resolve a destination folder template ('template' storage mode) for a note.
+   * Supports the filename pattern variables plus {noteFolder}, {notePath} and {frontmatter.key}.
+   * Unknown or empty variables resolve to an empty segment.
+   */
+  async resolvePathTemplate(
+    template: string,
+    activeFile: TFile,
+    originalFilename = 'image.png',
+    data?: ArrayBuffer,
+    notePath: string = activeFile.path
+  ): Promise<string> {
+    const ext = originalFilename.split('.').pop() || 'png';
+    const originalName = originalFilename.replace(/\.[^.]+$/, '');
+    const hash = data ? await this.getContentHash(data) : '';
+
+    const variables: PathTemplateVariables = {
+      ...this.getPatternVariables(originalName, ext, notePath, hash),
+      noteFolder: notePath.substring(0, notePath.lastIndexOf('/')),
+      notePath: notePath.replace(/\.[^.]+$/, ''),
+    };
+
+    const frontmatter = this.plugin.app.metadataCache.getFileCache(activeFile)?.frontmatter || {};
+
+    const resolved = this.applyVariables(template, variables)
+      .replace(/\{frontmatter\.([^}]+)\}/g, (_match, key: string) => {
+        const value = frontmatter[key.trim()];
+        const first = Array.isArray(value) ? value[0] : value;
+        return first === undefined || first === null ? '' : this.sanitizePathSegment(String(first));
+      })
+      .replace(/\{[^}]*\}/g, '');
+
+    return normalizePath(resolved).replace(/^\/+|\/+$/g, '');
+  }
+
+  /**
+   * Strip characters that are not allowed in file or folder names
+   */
+  private sanitizePathSegment(value: string): string {
+    return value.replace(/[\\:*?"<>|#^[\]]/g, '').trim();
   }
 
   /**
    * Generate filename based on settings
    */
-  private async generateFilename(originalFilename: string, activeFile: TFile): Promise<string> {
-    const settings = this.plugin.settings;
+  private async generateFilename(
+    originalFilename: string,
+    activeFile: TFile,
+    basePath: string,
+    data?: ArrayBuffer
+  ): Promise<string> {
+    const settings = this.getEffectiveSettings(activeFile);
     const ext = originalFilename.split('.').pop() || 'png';
     const originalName = originalFilename.replace(/\.[^.]+$/, '');
 
-    const variables = this.getPatternVariables(originalName, ext, activeFile);
+    const hash = data ? await this.getContentHash(data) : '';
+    const variables = this.getPatternVariables(originalName, ext, activeFile.path, hash);
 
-    let filename: string;
+    // Every mode except 'original' is a pattern, so {counter} works wherever a pattern comes from
+    // (settings, a storage rule or the note's imagemaster-pattern)
+    let pattern: string;
 
     switch (settings.filenamePattern) {
       case 'original':
-        filename = originalFilename;
-        break;
+        return originalFilename;
       case 'timestamp':
-        filename = `${variables.timestamp}_${originalName}.${ext}`;
+        pattern = '{timestamp}_{original}';
         break;
       case 'uuid':
-        filename = `${variables.uuid}.${ext}`;
+        pattern = '{uuid}';
         break;
       case 'hash':
-        // Hash will be calculated later, use timestamp for now
-        filename = `${variables.timestamp}.${ext}`;
+        // Fall back to timestamp when the content is not available
+        pattern = variables.hash ? '{hash}' : '{timestamp}';
         break;
       case 'custom':
-        filename = this.applyCustomPattern(settings.customPattern, variables) + `.${ext}`;
+        pattern = settings.customPattern;
         break;
       default:
-        filename = originalFilename;
+        return originalFilename;
     }
 
-    return filename;
+    return (await this.expandPattern(pattern, variables, basePath, ext)) + `.${ext}`;
+  }
+
+  /**
+   * Get 8-char SHA-256 prefix of the image content
+   */
+  private async getContentHash(data: ArrayBuffer): Promise<string> {
+    const hash = await this.plugin.hashService.calculateHashFromBuffer(data);
+    return hash.substring(0, 8);
   }
 
   /**
-   * Get pattern variables for filename generation
+   * Get pattern variables for filename generation; {note} and {folder} come from notePath
    */
-  private getPatternVariables(originalName: string, ext: string, activeFile: TFile): PatternVariables {
+  private getPatternVariables(originalName: string, ext: string, notePath: string, hash: string): PatternVariables {
     const now = new Date();
-    const noteFolder = activeFile.path.substring(0, activeFile.path.lastIndexOf('/')) || '';
+    const noteFolder = notePath.substring(0, notePath.lastIndexOf('/')) || '';
 
     return {
       original: originalName,
@@ -139,8 +418,8 @@ export class FileManager {
       month: String(now.getMonth() + 1).padStart(2, '0'),
       day: String(now.getDate()).padStart(2, '0'),
       uuid: this.generateUUID(),
-      hash: '', // Will be filled later if needed
-      note: activeFile.basename,
+      hash: hash,
+      note: (notePath.split('/').pop() || '').replace(/\.[^.]+$/, ''),
       folder: noteFolder.split('/').pop() || '',
       counter: 0,
     };
@@ -176,17 +455,92 @@ export class FileManager {
     return Math.random().toString(36).substring(2, 10);
   }
 
+  /**
+   * Expand a filename pattern, taking the next {counter} value for the folder if the pattern uses it
+   */
+  private async expandPattern(
+    pattern: string,
+    variables: PatternVariables,
+    basePath: string,
+    ext: string
+  ): Promise<string> {
+    if (pattern.match(COUNTER_TOKEN)) {
+      variables.counter = await this.nextCounter(basePath, this.applyVariables(pattern, variables), ext);
+    }
+    return this.applyCustomPattern(pattern, variables);
+  }
+
   /**
    * Apply custom pattern with variables
    */
   private applyCustomPattern(pattern: string, variables: PatternVariables): string {
+    const result = this.applyVariables(pattern, variables);
+    return result.replace(COUNTER_TOKEN, (_match, width?: string) =>
+      String(variables.counter).padStart(width ? parseInt(width, 10) : 0, '0')
+    );
+  }
+
+  /**
+   * Substitute every variable except {counter}, which needs the rest of the name to be scoped
+   */
+  private applyVariables(pattern: string, variables: PatternVariables): string {
     let result = pattern;
     for (const [key, value] of Object.entries(variables)) {
+      if (key === 'counter') continue;
       result = result.replace(new RegExp(`\\{${key}\\}`, 'g'), String(value));
     }
     return result;
   }
 
+  /**
+   * Get the next {counter} value for a name template in a folder.
+   * Each folder + template (e.g. "notes_img/Meeting_{counter:2}") has its own sequence,
+   * which never goes below the highest number already present in the folder.
+   */
+  private async nextCounter(basePath: string, template: string, ext: string): Promise<number> {
+    const key = normalizePath(`${basePath}/${template}`);
+    const stored = this.counters[key] || 0;
+    const next = Math.max(stored, this.findHighestCounter(basePath, template, ext)) + 1;
+
+    this.counters[key] = next;
+    await this.saveCounters();
+
+    return next;
+  }
+
+  /**
+   * Find the highest counter value used by existing files matching the template
+   */
+  private findHighestCounter(basePath: string, template: string, ext: string): number {
+    const folder = basePath
+      ? this.plugin.app.vault.getAbstractFileByPath(normalizePath(basePath))
+      : this.plugin.app.vault.getRoot();
+    if (!folder || !(folder instanceof TFolder)) return 0;
+
+    const source = `${template}.${ext}`
+      .split(COUNTER_TOKEN)
+      .map((part, index) => (index % 2 === 0 ? this.escapeRegex(part) : null))
+      .filter((part): part is string => part !== null)
+      .join('(\\d+)');
+    const matcher = new RegExp(`^${source}$`);
+
+    let highest = 0;
+    for (const child of folder.children) {
+      const match = child.name.match(matcher);
+      if (match && match[1]) {
+        highest = Math.max(highest, parseInt(match[1], 10));
+      }
+    }
+    return highest;
+  }
+
+  /**
+   * Escape special regex characters
+   */
+  private escapeRegex(str: string): string {
+    return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+
   /**
    * Resolve filename conflicts by adding counter
    */
@@ -235,52 +589,180 @@ export class FileManager {
   }
 
   /**
-   * Insert image link into active note
+   * Insert image link into active note.
+   * Inserts at the given position (e.g. drop location) or at the cursor.
    */
-  async insertImageLink(noteFile: TFile, imagePath: string): Promise<void> {
-    const link = this.formatImageLink(imagePath, noteFile);
+  async insertImageLink(noteFile: TFile, imagePath: string, position?: EditorPosition): Promise<void> {
+    const link = await this.createImageLink(imagePath, noteFile);
+    await this.insertLinks(noteFile, [link], position);
+  }
+
+  /**
+   * Insert a block of already formatted links, one per line
+   */
+  async insertLinks(noteFile: TFile, links: string[], position?: EditorPosition): Promise<void> {
+    const block = links.join('\n');
 
     // Get the active editor
     const activeView = this.plugin.app.workspace.getActiveViewOfType(MarkdownView);
 
     if (activeView && activeView.file?.path === noteFile.path) {
       const editor = activeView.editor;
-      const cursor = editor.getCursor();
-      editor.replaceRange(link + '\n', cursor);
-      editor.setCursor({ line: cursor.line + 1, ch: 0 });
+      const insertPos = position ?? editor.getCursor();
+      editor.replaceRange(block + '\n', insertPos);
+      editor.setCursor({ line: insertPos.line + links.length, ch: 0 });
     } else {
       // Append to file if not active
       const content = await this.plugin.app.vault.read(noteFile);
-      await this.plugin.app.vault.modify(noteFile, content + '\n' + link);
+      await this.plugin.app.vault.modify(noteFile, content + '\n' + block);
     }
   }
 
   /**
-   * Format image link based on settings
+   * Save a non-image attachment where Obsidian would put it by default.
+   * Returns the embed link Obsidian would generate for it.
    */
-  formatImageLink(imagePath: string, noteFile: TFile): string {
-    const settings = this.plugin.settings;
-    const imageName = imagePath.split('/').pop() || imagePath;
+  async saveDefaultAttachment(blob: File, noteFile: TFile): Promise<string> {
+    const { fileManager, vault } = this.plugin.app;
+    const data = await blob.arrayBuffer();
+    const path = await fileManager.getAvailablePathForAttachment(blob.name || 'attachment', noteFile.path);
+    const file = await vault.createBinary(path, data);
+    return '!' + fileManager.generateMarkdownLink(file, noteFile.path);
+  }
+
+  /**
+   * Format image link after measuring the image, so {width} can use its pixel width
+   */
+  async createImageLink(imagePath: string, noteFile: TFile): Promise<string> {
+    const settings = this.getEffectiveSettings(noteFile);
+    if (settings.linkFormat === 'template' && settings.linkWidthFromImage) {
+      await this.getImageWidth(imagePath);
+    }
+    return this.formatImageLink(imagePath, noteFile);
+  }
 
-    switch (settings.linkFormat) {
-      case 'wikilink':
-        return `![[${imageName}]]`;
+  /**
+   * Format image link based on settings.
+   * Synchronous for drag and drop; {width} uses the pixel width only if it was measured before.
+   * options.format overrides the configured format; options.alias is kept as the
+   * wikilink alias or markdown alt text (e.g. "300" or "diagram|300").
+   */
+  formatImageLink(
+    imagePath: string,
+    noteFile: TFile,
+    options: { format?: LinkFormat; alias?: string } = {}
+  ): string {
+    const settings = this.getEffectiveSettings(noteFile);
+    const imageName = imagePath.split('/').pop() || imagePath;
+    const alias = options.alias || '';
+    const wikiAlias = alias ? `|${alias}` : '';
+
+    switch (options.format || settings.linkFormat) {
+      case 'template':
+        return this.applyLinkTemplate(settings.linkTemplate, this.getLinkTemplateVariables(imagePath, noteFile));
+
+      case 'wikilink': {
+        // The bare name only works if it resolves to this image; otherwise keep the full path
+        const resolved = this.plugin.app.metadataCache.getFirstLinkpathDest(imageName, noteFile.path);
+        const target = !resolved || resolved.path === imagePath ? imageName : imagePath;
+        return `![[${target}${wikiAlias}]]`;
+      }
 
       case 'wikilink-path':
-        return `![[${imagePath}]]`;
+        return `![[${imagePath}${wikiAlias}]]`;
 
       case 'markdown-relative': {
         const noteFolder = noteFile.path.substring(0, noteFile.path.lastIndexOf('/')) || '';
         const relativePath = this.getRelativePath(noteFolder, imagePath);
-        return `![](${relativePath})`;
+        return `![${alias}](${encodeMarkdownTarget(relativePath)})`;
       }
 
       case 'markdown-absolute':
-        return `![](/${imagePath})`;
+        return `![${alias}](/${encodeMarkdownTarget(imagePath)})`;
 
       default:
-        return `![[${imagePath}]]`;
+        return `![[${imagePath}${wikiAlias}]]`;
+    }
+  }
+
+  /**
+   * Get variables for the link template
+   */
+  private getLinkTemplateVariables(imagePath: string, noteFile: TFile): LinkTemplateVariables {
+    const settings = this.getEffectiveSettings(noteFile);
+    const imageName = imagePath.split('/').pop() || imagePath;
+    const noteFolder = noteFile.path.substring(0, noteFile.path.lastIndexOf('/')) || '';
+
+    // Pixel width (capped at the configured width) or the configured width alone
+    let width = settings.linkWidth > 0 ? settings.linkWidth : 0;
+    const pixelWidth = settings.linkWidthFromImage ? this.imageWidths.get(imagePath) : undefined;
+    if (pixelWidth) {
+      width = width > 0 ? Math.min(width, pixelWidth) : pixelWidth;
+    }
+
+    return {
+      path: imagePath,
+      name: imageName,
+      relpath: this.getRelativePath(noteFolder, imagePath),
+      alt: imageName.replace(/\.[^.]+$/, ''),
+      width: width > 0 ? String(width) : '',
+      note: noteFile.basename,
+    };
+  }
+
+  /**
+   * Apply link template variables.
+   * Values are HTML-escaped in HTML templates (e.g. <img src="{path}" alt="{alt}">), and
+   * paths in a markdown link target (e.g. ![{alt}]({relpath})) are encoded like the markdown formats.
+   * An empty wikilink alias left behind by an empty {width} ("|]]") is dropped.
+   */
+  private applyLinkTemplate(template: string, variables: LinkTemplateVariables): string {
+    let result = template || '![[{path}]]';
+    const isHtml = /<[a-z]/i.test(result);
+    if (!isHtml) {
+      result = result.replace(/\]\([^)]*\)/g, (target) =>
+        target.replace(/\{(path|relpath)\}/g, (_, key: 'path' | 'relpath') => encodeMarkdownTarget(variables[key]))
+      );
+    }
+    for (const [key, value] of Object.entries(variables)) {
+      const text = isHtml ? this.escapeHtml(value) : value;
+      result = result.replace(new RegExp(`\\{${key}\\}`, 'g'), () => text);
     }
+    return result.replace(/\|\]\]/g, ']]');
+  }
+
+  private escapeHtml(str: string): string {
+    return str
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+
+  /**
+   * Forget a measured width, e.g. after the image was replaced or moved
+   */
+  forgetImageWidth(imagePath: string): void {
+    this.imageWidths.delete(imagePath);
+  }
+
+  /**
+   * Measure the pixel width of an image (cached per path)
+   */
+  async getImageWidth(imagePath: string): Promise<number | null> {
+    const cached = this.imageWidths.get(imagePath);
+    if (cached) return cached;
+
+    return new Promise((resolve) => {
+      const img = new Image();
+      img.onload = () => {
+        this.imageWidths.set(imagePath, img.naturalWidth);
+        resolve(img.naturalWidth);
+      };
+      img.onerror = () => resolve(null);
+      img.src = this.plugin.app.vault.adapter.getResourcePath(imagePath);
+    });
   }
 
   /**
@@ -318,7 +800,7 @@ export class FileManager {
 
     if (oldFolder === newFolder) return;
 
-    const settings = this.plugin.settings;
+    const settings = this.getEffectiveSettings(noteFile);
     const suffix = settings.imageFolderSuffix || '_img';
 
     // Get old and new image folder paths
@@ -335,20 +817,69 @@ export class FileManager {
     // Get images referenced by this note
     const referencedImages = await this.getReferencedImages(noteFile);
 
-    // Move each referenced image
-    for (const imagePath of referencedImages) {
-      if (imagePath.startsWith(oldImageFolder)) {
+    // Plan a move for each referenced image
+    const moves = referencedImages
+      .filter((imagePath) => imagePath.startsWith(oldImageFolder))
+      .map((imagePath) => ({
+        from: imagePath,
+        to: `${newImageFolder}/${imagePath.split('/').pop() || ''}`,
+      }));
+
+    await this.runImageMoves(noteFile, moves, settings.cleanupEmptyFolders ? oldImageFolder : null);
+  }
+
+  /**
+   * Move images to the note's declared folder when it is relative to the note
+   * (e.g. "imagemaster-folder: ./assets"). Absolute declared folders stay where they are.
+   */
+  async moveImagesToDeclaredFolder(noteFile: TFile, oldPath: string): Promise<void> {
+    const oldFolder = this.getDeclaredFolder(noteFile, oldPath);
+    const newFolder = this.getDeclaredFolder(noteFile);
+
+    if (oldFolder === null || newFolder === null || oldFolder === newFolder) return;
+
+    const referencedImages = await this.getReferencedImages(noteFile);
+
+    const moves = referencedImages
+      .filter((imagePath) => (imagePath.substring(0, imagePath.lastIndexOf('/')) || '/') === oldFolder)
+      .map((imagePath) => {
         const imageName = imagePath.split('/').pop() || '';
-        const newImagePath = `${newImageFolder}/${imageName}`;
+        return { from: imagePath, to: newFolder === '/' ? imageName : `${newFolder}/${imageName}` };
+      });
 
-        await this.moveImage(imagePath, newImagePath);
-      }
-    }
+    await this.runImageMoves(noteFile, moves, this.plugin.settings.cleanupEmptyFolders ? oldFolder : null);
+  }
 
-    // Cleanup empty folder
-    if (settings.cleanupEmptyFolders) {
-      await this.cleanupEmptyFolder(oldImageFolder);
-    }
+  /**
+   * Move a note's images when its move changes which storage rule applies
+   * (e.g. out of a folder that has a rule). Images in the folder the old rule used
+   * go to the folder the new rule (or the global settings) uses.
+   * Returns false if the same rule applies before and after the move.
+   */
+  async moveImagesForRuleChange(noteFile: TFile, oldPath: string): Promise<boolean> {
+    const oldMatch = this.findMatchingRule(noteFile, oldPath);
+    const newMatch = this.findMatchingRule(noteFile);
+    if ((oldMatch?.index ?? -1) === (newMatch?.index ?? -1)) return false;
+
+    const oldFolder = await this.getStorageFolder(noteFile, 'image.png', undefined, oldPath);
+    const newFolder = await this.getStorageFolder(noteFile, 'image.png');
+    if (oldFolder === newFolder) return true;
+
+    const referencedImages = await this.getReferencedImages(noteFile);
+
+    const moves = referencedImages
+      .filter((imagePath) => imagePath.substring(0, imagePath.lastIndexOf('/')) === oldFolder)
+      .map((imagePath) => {
+        const imageName = imagePath.split('/').pop() || '';
+        return { from: imagePath, to: newFolder ? `${newFolder}/${imageName}` : imageName };
+      });
+
+    await this.runImageMoves(
+      noteFile,
+      moves,
+      this.getEffectiveSettings(noteFile).cleanupEmptyFolders ? oldFolder : null
+    );
+    return true;
   }
 
   /**
@@ -362,25 +893,82 @@ export class FileManager {
 
     const referencedImages = await this.getReferencedImages(noteFile);
 
-    for (const imagePath of referencedImages) {
-      if (imagePath.startsWith(oldFolder)) {
+    const moves = referencedImages
+      .filter((imagePath) => imagePath.startsWith(oldFolder))
+      .map((imagePath) => {
         const imageName = imagePath.split('/').pop() || '';
-        const newImagePath = newFolder ? `${newFolder}/${imageName}` : imageName;
+        return { from: imagePath, to: newFolder ? `${newFolder}/${imageName}` : imageName };
+      });
+
+    await this.runImageMoves(
+      noteFile,
+      moves,
+      this.getEffectiveSettings(noteFile).cleanupEmptyFolders ? oldFolder : null
+    );
+  }
 
-        await this.moveImage(imagePath, newImagePath);
+  /**
+   * Queue the image moves caused by a note move for review. Moves from notes moved together
+   * (e.g. with their folder) are collected into one plan; resolves once that plan has run.
+   */
+  private runImageMoves(
+    noteFile: TFile,
+    moves: Array<{ from: string; to: string }>,
+    cleanupFolder: string | null
+  ): Promise<void> {
+    if (moves.length === 0) return Promise.resolve();
+
+    if (!this.noteMoveBatch) {
+      let resolve = () => {};
+      const done = new Promise<void>((r) => (resolve = r));
+      this.noteMoveBatch = { notes: [], moves: [], cleanupFolders: new Set(), done, resolve };
+    }
+
+    const batch = this.noteMoveBatch;
+    batch.notes.push(noteFile.basename);
+    for (const move of moves) {
+      // An image embedded by several moved notes is moved once
+      if (!batch.moves.some((queued) => queued.from === move.from)) {
+        batch.moves.push(move);
       }
     }
+    if (cleanupFolder) {
+      batch.cleanupFolders.add(cleanupFolder);
+    }
+
+    this.reviewNoteMoves();
+    return batch.done;
+  }
 
-    if (this.plugin.settings.cleanupEmptyFolders) {
-      await this.cleanupEmptyFolder(oldFolder);
+  /**
+   * Review and run the queued note-move plan, then clean up the emptied folders
+   */
+  private async runNoteMoveBatch(): Promise<void> {
+    const batch = this.noteMoveBatch;
+    if (!batch) return;
+    this.noteMoveBatch = null;
+
+    try {
+      const title =
+        batch.notes.length === 1
+          ? t('plan.title.noteMove', { note: batch.notes[0] })
+          : t('plan.title.noteMoves', { count: batch.notes.length });
+      const plan = this.plugin.operationPlanner.planMoves(title, batch.moves, {
+        cleanupFolders: Array.from(batch.cleanupFolders),
+      });
+      await this.plugin.operationPlanner.confirmAndExecute(plan);
+    } catch (error) {
+      console.error('Failed to move images of moved notes:', error);
+    } finally {
+      batch.resolve();
     }
   }
 
   /**
    * Rename image folder (noteFolder mode)
    */
-  async renameImageFolder(oldNoteName: string, newNoteName: string): Promise<void> {
-    const settings = this.plugin.settings;
+  async renameImageFolder(noteFile: TFile, oldNoteName: string, newNoteName: string): Promise<void> {
+    const settings = this.getEffectiveSettings(noteFile);
     const oldFolderPath = `${settings.centralFolder}/${oldNoteName}`;
     const newFolderPath = `${settings.centralFolder}/${newNoteName}`;
 
@@ -411,6 +999,13 @@ export class FileManager {
       }
     }
 
+    // HTML <img> and frontmatter references
+    for (const ref of this.plugin.referenceIndex.getReferencesFrom(noteFile.path)) {
+      if (!images.includes(ref.imagePath) && this.plugin.app.vault.getAbstractFileByPath(ref.imagePath)) {
+        images.push(ref.imagePath);
+      }
+    }
+
     return images;
   }
 
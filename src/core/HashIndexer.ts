@@ -0,0 +1,164 @@
+import { Notice, TFile } from 'obsidian';
+import ImageMasterPlugin from '../main';
+import { isImageFile } from '../types';
+import { t } from '../i18n';
+
+const CHUNK_SIZE = 10;
+
+/**
+ * Let the app handle input and rendering before continuing long-running work
+ */
+export function waitForIdle(): Promise<void> {
+  return new Promise((resolve) => {
+    if (typeof window.requestIdleCallback === 'function') {
+      window.requestIdleCallback(() => resolve(), { timeout: 1000 });
+    } else {
+      window.setTimeout(resolve, 0);
+    }
+  });
+}
+
+/**
+ * HashIndexer keeps the hash cache warm in the background:
+ * - Queue new and modified images for hashing
+ * - Hash in small chunks while the app is idle
+ * - Show progress in the status bar; indexing can be cancelled
+ */
+export class HashIndexer {
+  private plugin: ImageMasterPlugin;
+  private queue = new Map<string, boolean>(); // path -> also compute the perceptual hash
+  private running: Promise<void> | null = null;
+  private done = 0;
+  private total = 0;
+  private statusBarEl: HTMLElement | null = null;
+
+  constructor(plugin: ImageMasterPlugin) {
+    this.plugin = plugin;
+  }
+
+  /**
+   * Show progress in a status bar item; clicking it cancels indexing
+   */
+  attachStatusBar(el: HTMLElement): void {
+    this.statusBarEl = el;
+    el.addClass('image-master-indexer-status');
+    el.setAttribute('aria-label', t('indexer.cancelTooltip'));
+    el.onClickEvent(() => this.cancel());
+    this.updateStatus();
+  }
+
+  /**
+   * Queue an image unless its cache entry is already current
+   */
+  enqueue(file: TFile, perceptual = this.plugin.settings.detectSimilarOnPaste): void {
+    if (this.plugin.hashService.isIndexed(file, perceptual)) return;
+
+    if (!this.queue.has(file.path)) {
+      this.total++;
+    }
+    this.queue.set(file.path, perceptual || !!this.queue.get(file.path));
+    this.start();
+  }
+
+  /**
+   * Queue every image in the vault that isn't indexed yet
+   */
+  enqueueAll(perceptual = this.plugin.settings.detectSimilarOnPaste): void {
+    for (const file of this.plugin.app.vault.getFiles()) {
+      if (isImageFile(file.path)) {
+        this.enqueue(file, perceptual);
+      }
+    }
+  }
+
+  /**
+   * Index every image and wait until the queue is empty (or indexing is cancelled)
+   */
+  async indexAll(perceptual = this.plugin.settings.detectSimilarOnPaste): Promise<void> {
+    this.enqueueAll(perceptual);
+    await this.whenIdle();
+  }
+
+  /**
+   * Resolves once the queue is empty
+   */
+  async whenIdle(): Promise<void> {
+    while (this.running) {
+      await this.running;
+    }
+  }
+
+  isRunning(): boolean {
+    return this.running !== null;
+  }
+
+  /**
+   * Drop everything still queued. Returns false if nothing was being indexed.
+   */
+  cancel(notify = true): boolean {
+    if (!this.running) return false;
+
+    this.queue.clear();
+    if (notify) {
+      new Notice(t('notice.indexingCancelled', { done: this.done, total: this.total }));
+    }
+    return true;
+  }
+
+  private start(): void {
+    if (this.running) return;
+
+    this.running = this.process().finally(() => {
+      this.running = null;
+      // Images queued while the last chunk finished
+      if (this.queue.size > 0) {
+        this.start();
+      } else {
+        this.done = 0;
+        this.total = 0;
+        this.updateStatus();
+        this.plugin.hashService.flush();
+      }
+    });
+  }
+
+  private async process(): Promise<void> {
+    const { vault } = this.plugin.app;
+
+    while (this.queue.size > 0) {
+      const chunk = Array.from(this.queue.entries()).slice(0, CHUNK_SIZE);
+
+      for (const [path, perceptual] of chunk) {
+        this.queue.delete(path);
+        const file = vault.getAbstractFileByPath(path);
+
+        if (file instanceof TFile) {
+          try {
+            if (perceptual) {
+              await this.plugin.hashService.calculatePerceptualHash(file);
+            } else {
+              await this.plugin.hashService.calculateHash(file);
+            }
+          } catch (error) {
+            console.error(`Failed to hash ${path}:`, error);
+          }
+        }
+        this.done++;
+      }
+
+      this.updateStatus();
+      await waitForIdle();
+    }
+  }
+
+  private updateStatus(): void {
+    if (!this.statusBarEl) return;
+
+    if (this.total === 0) {
+      this.statusBarEl.hide();
+      return;
+    }
+    this.statusBarEl.setText(t('indexer.progress', { done: this.done, total: this.total }));
+    this.statusBarEl.show();
+  }
+}
@@ -1,36 +1,186 @@
-import { TFile, normalizePath } from 'obsidian';
+import { FileSystemAdapter, TFile, debounce, normalizePath } from 'obsidian';
 import { createHash } from 'crypto';
+import { mkdirSync, renameSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
 import ImageMasterPlugin from '../main';
-import { HashCache, isImageFile } from '../types';
+import { HashCache, HashCacheFile, SimilarImage, isImageFile } from '../types';
+import {
+  MAX_SIMILARITY_DISTANCE,
+  PERCEPTUAL_HASH_VERSION,
+  computePerceptualHash,
+  hammingDistance,
+  popcount,
+  splitHash,
+} from './PerceptualHash';
+import { waitForIdle } from './HashIndexer';
+
+const CACHE_VERSION = 2;
+const CACHE_FILENAME = 'hash-cache.json';
+const LEGACY_CACHE_FILE = '.image-master/hash-cache.json';
+const FLUSH_DELAY_MS = 5000;
+// Hashes of removed or moved images kept for broken-link repair
+const MAX_TOMBSTONES = 1000;
+// Time spent comparing perceptual hashes before yielding to the app
+const COMPARE_SLICE_MS = 30;
+
+interface SimilarPairs {
+  version: number;                 // Cache version the pairs were computed from
+  paths: string[];
+  pairs: Array<[number, number, number]>; // [index, index, distance] within MAX_SIMILARITY_DISTANCE
+}
 
 /**
  * HashService handles image hash calculation and caching:
  * - Calculate SHA-256 hash for duplicate detection
  * - Cache hashes to avoid recalculation
  * - Find duplicate images by hash
+ * - Find visually similar images by perceptual hash
+ *
+ * Searches only use the warm index; HashIndexer fills it in the background.
  */
 export class HashService {
   private plugin: ImageMasterPlugin;
   private cache: HashCache = {};
-  private readonly CACHE_FILE = '.image-master/hash-cache.json';
+  private tombstones: Record<string, string> = {}; // Former path -> hash, oldest first
+  private dirty = false;
+  private version = 0;             // Bumped on every cache change
+  private similarPairs: SimilarPairs | null = null;
+  private saveQueue: Promise<void> = Promise.resolve();
+  // Flushes at most once per FLUSH_DELAY_MS while changes keep coming in
+  private scheduleFlush = debounce(() => this.flush(), FLUSH_DELAY_MS, false);
 
   constructor(plugin: ImageMasterPlugin) {
     this.plugin = plugin;
   }
 
   /**
-   * Load hash cache from disk
+   * Path of the cache file: the configured folder, or the plugin's own folder
+   */
+  getCachePath(): string {
+    const folder =
+      this.plugin.settings.hashCacheFolder.trim() ||
+      this.plugin.manifest.dir ||
+      `${this.plugin.app.vault.configDir}/plugins/${this.plugin.manifest.id}`;
+    return normalizePath(`${folder}/${CACHE_FILENAME}`);
+  }
+
+  /**
+   * Store the cache in another folder ('' = plugin folder), moving the current cache there.
+   * Returns false if the new file couldn't be written; the old location is kept then.
+   */
+  async setCacheFolder(folder: string): Promise<boolean> {
+    const { adapter } = this.plugin.app.vault;
+    const oldFolder = this.plugin.settings.hashCacheFolder;
+    const oldPath = this.getCachePath();
+
+    this.plugin.settings.hashCacheFolder = folder;
+    if (this.getCachePath() === oldPath) return true;
+
+    this.dirty = true;
+    await this.saveCache();
+    if (this.dirty) {
+      this.plugin.settings.hashCacheFolder = oldFolder;
+      return false;
+    }
+
+    for (const path of [oldPath, `${oldPath}.bak`]) {
+      try {
+        if (await adapter.exists(path)) {
+          await adapter.remove(path);
+        }
+      } catch (error) {
+        console.error(`Failed to remove old hash cache ${path}:`, error);
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Load hash cache from disk, falling back to the backup copy if the file is missing or corrupt
    */
   async loadCache(): Promise<void> {
+    const cachePath = this.getCachePath();
+    const file = (await this.readCacheFile(cachePath)) ?? (await this.readCacheFile(`${cachePath}.bak`));
+    this.cache = file?.entries ?? {};
+    this.tombstones = file?.tombstones ?? {};
+
+    // Perceptual hashes from an older algorithm can't be compared with new ones
+    if (file && file.phashVersion !== PERCEPTUAL_HASH_VERSION) {
+      for (const entry of Object.values(this.cache)) {
+        delete entry.phash;
+      }
+      this.markDirty();
+    }
+
+    // Caches from older versions lived in the vault and synced with the notes
+    const legacyPath = normalizePath(LEGACY_CACHE_FILE);
+    if (legacyPath !== cachePath) {
+      await this.migrateLegacyCache(legacyPath, file === null);
+    }
+  }
+
+  /**
+   * Move a cache written by older versions into the current file, then remove it.
+   * Entries whose mtime still matches get the file's current size, so they don't need re-hashing.
+   */
+  private async migrateLegacyCache(legacyPath: string, importEntries: boolean): Promise<void> {
+    const { vault } = this.plugin.app;
+    const { adapter } = vault;
     try {
-      const cachePath = normalizePath(this.CACHE_FILE);
-      if (await this.plugin.app.vault.adapter.exists(cachePath)) {
-        const content = await this.plugin.app.vault.adapter.read(cachePath);
-        this.cache = JSON.parse(content);
+      if (!(await adapter.exists(legacyPath))) return;
+
+      if (importEntries) {
+        const legacy: Record<string, { hash: string; mtime: number }> = JSON.parse(await adapter.read(legacyPath));
+        for (const [path, entry] of Object.entries(legacy)) {
+          const file = vault.getAbstractFileByPath(path);
+          if (file instanceof TFile && entry && typeof entry.hash === 'string' && entry.mtime === file.stat.mtime) {
+            this.cache[path] = { hash: entry.hash, mtime: entry.mtime, size: file.stat.size };
+          }
+        }
+
+        this.dirty = true;
+        await this.saveCache();
+        if (this.dirty) return; // Keep the legacy file until the new one is written
       }
+
+      await adapter.remove(legacyPath);
     } catch (error) {
-      console.error('Failed to load hash cache:', error);
-      this.cache = {};
+      console.error('Failed to migrate legacy hash cache:', error);
+    }
+  }
+
+  /**
+   * Read a cache file; returns null if it is missing, from another schema version or unreadable.
+   * Unreadable files are moved aside so the next save starts clean.
+   */
+  private async readCacheFile(path: string): Promise<HashCacheFile | null> {
+    const { adapter } = this.plugin.app.vault;
+    try {
+      if (!(await adapter.exists(path))) return null;
+
+      const data: Partial<HashCacheFile> = JSON.parse(await adapter.read(path));
+      if (data.version !== CACHE_VERSION || typeof data.entries !== 'object' || data.entries === null) {
+        console.warn(`Ignoring hash cache ${path} with unsupported version ${data.version}`);
+        return null;
+      }
+      return {
+        version: data.version,
+        entries: data.entries,
+        tombstones: data.tombstones,
+        phashVersion: data.phashVersion,
+      };
+    } catch (error) {
+      console.error(`Hash cache ${path} is corrupt, it will be rebuilt:`, error);
+      try {
+        const corruptPath = `${path}.corrupt`;
+        if (await adapter.exists(corruptPath)) {
+          await adapter.remove(corruptPath);
+        }
+        await adapter.rename(path, corruptPath);
+      } catch (renameError) {
+        console.error('Failed to move corrupt hash cache aside:', renameError);
+      }
+      return null;
     }
   }
 
@@ -38,28 +188,107 @@ export class HashService {
    * Save hash cache to disk
    */
   async saveCache(): Promise<void> {
+    this.scheduleFlush.cancel();
+    // Chain saves so two writes never race on the same temp file
+    this.saveQueue = this.saveQueue.then(() => this.writeCacheFile());
+    return this.saveQueue;
+  }
+
+  /**
+   * Save pending changes, if any
+   */
+  async flush(): Promise<void> {
+    if (this.dirty) {
+      await this.saveCache();
+    }
+  }
+
+  /**
+   * Write pending changes synchronously, for plugin unload where async writes may not finish.
+   * Needs the desktop file system adapter; elsewhere it starts an async flush instead.
+   */
+  flushSync(): void {
+    this.scheduleFlush.cancel();
+    if (!this.dirty) return;
+
+    const { adapter } = this.plugin.app.vault;
+    if (!(adapter instanceof FileSystemAdapter)) {
+      this.flush().catch((error) => console.error('Failed to save hash cache:', error));
+      return;
+    }
+
+    try {
+      const cachePath = adapter.getFullPath(this.getCachePath());
+      const tempPath = `${cachePath}.unload.tmp`;
+      const file = this.toCacheFile();
+
+      mkdirSync(dirname(cachePath), { recursive: true });
+      writeFileSync(tempPath, JSON.stringify(file));
+      renameSync(tempPath, cachePath);
+      this.dirty = false;
+    } catch (error) {
+      console.error('Failed to save hash cache:', error);
+    }
+  }
+
+  /**
+   * Write the cache atomically: write a temp file, keep the previous file as backup, then swap
+   */
+  private async writeCacheFile(): Promise<void> {
+    const { adapter } = this.plugin.app.vault;
     try {
-      const cachePath = normalizePath(this.CACHE_FILE);
+      const cachePath = this.getCachePath();
       const cacheFolder = cachePath.substring(0, cachePath.lastIndexOf('/'));
+      const tempPath = `${cachePath}.tmp`;
+      const backupPath = `${cachePath}.bak`;
 
       // Ensure folder exists
-      if (!(await this.plugin.app.vault.adapter.exists(cacheFolder))) {
-        await this.plugin.app.vault.createFolder(cacheFolder);
+      if (cacheFolder && !(await adapter.exists(cacheFolder))) {
+        await adapter.mkdir(cacheFolder);
       }
 
-      await this.plugin.app.vault.adapter.write(cachePath, JSON.stringify(this.cache, null, 2));
+      this.dirty = false;
+      const file = this.toCacheFile();
+      await adapter.write(tempPath, JSON.stringify(file));
+
+      if (await adapter.exists(cachePath)) {
+        if (await adapter.exists(backupPath)) {
+          await adapter.remove(backupPath);
+        }
+        await adapter.rename(cachePath, backupPath);
+      }
+      await adapter.rename(tempPath, cachePath);
     } catch (error) {
+      this.dirty = true;
       console.error('Failed to save hash cache:', error);
     }
   }
 
+  private toCacheFile(): HashCacheFile {
+    return {
+      version: CACHE_VERSION,
+      entries: this.cache,
+      tombstones: this.tombstones,
+      phashVersion: PERCEPTUAL_HASH_VERSION,
+    };
+  }
+
+  /**
+   * Note a cache change and schedule a flush
+   */
+  private markDirty(): void {
+    this.version++;
+    this.dirty = true;
+    this.scheduleFlush();
+  }
+
   /**
    * Calculate hash for an image file
    */
   async calculateHash(file: TFile): Promise<string> {
     // Check if cached and still valid
     const cached = this.cache[file.path];
-    if (cached && cached.mtime === file.stat.mtime) {
+    if (cached && cached.mtime === file.stat.mtime && cached.size === file.stat.size) {
       return cached.hash;
     }
 
@@ -71,7 +300,9 @@ export class HashService {
     this.cache[file.path] = {
       hash,
       mtime: file.stat.mtime,
+      size: file.stat.size,
     };
+    this.markDirty();
 
     return hash;
   }
@@ -93,38 +324,53 @@ export class HashService {
   }
 
   /**
-   * Find duplicate image by comparing hash
+   * Find duplicate image by comparing hash against the warm index.
+   * A hash match is only returned once the file is confirmed to hold the same bytes.
    */
   async findDuplicate(data: ArrayBuffer): Promise<string | null> {
     const newHash = await this.calculateHashFromBuffer(data);
 
     // Search in cache
     for (const [path, entry] of Object.entries(this.cache)) {
-      if (entry.hash === newHash) {
-        // Verify file still exists
-        const file = this.plugin.app.vault.getAbstractFileByPath(path);
-        if (file && file instanceof TFile) {
-          return path;
-        } else {
-          // Remove stale cache entry
-          delete this.cache[path];
-        }
+      if (entry.hash === newHash && (await this.isSameContent(path, data, newHash))) {
+        return path;
       }
     }
 
-    // Search in vault (for uncached images)
-    const images = this.plugin.app.vault.getFiles().filter((f) => isImageFile(f.path));
+    return null;
+  }
 
-    for (const image of images) {
-      if (!this.cache[image.path]) {
-        const hash = await this.calculateHash(image);
-        if (hash === newHash) {
-          return image.path;
-        }
-      }
+  /**
+   * Check that a cached hash match really is the same image.
+   * Entries for files changed since they were hashed are re-hashed; mismatches are logged.
+   */
+  private async isSameContent(path: string, data: ArrayBuffer, hash: string): Promise<boolean> {
+    const file = this.plugin.app.vault.getAbstractFileByPath(path);
+    if (!(file instanceof TFile)) {
+      // Remove stale cache entry
+      this.removeFromCache(path);
+      return false;
     }
 
-    return null;
+    // calculateHash re-hashes when mtime or size no longer match the cache entry
+    const currentHash = await this.calculateHash(file);
+    if (currentHash !== hash) {
+      console.warn(`Hash cache entry for ${path} was stale and has been refreshed`);
+      return false;
+    }
+
+    // The hash is a truncated digest, so compare the actual bytes
+    const existing = new Uint8Array(await this.plugin.app.vault.readBinary(file));
+    const incoming = new Uint8Array(data);
+    let identical = existing.length === incoming.length;
+    for (let i = 0; identical && i < existing.length; i++) {
+      identical = existing[i] === incoming[i];
+    }
+
+    if (!identical) {
+      console.warn(`Hash collision: ${path} shares hash ${hash} with the pasted image but differs in content`);
+    }
+    return identical;
   }
 
   /**
@@ -133,7 +379,9 @@ export class HashService {
   updateCachePath(oldPath: string, newPath: string): void {
     if (this.cache[oldPath]) {
       this.cache[newPath] = this.cache[oldPath];
+      this.addTombstone(oldPath, this.cache[oldPath].hash);
       delete this.cache[oldPath];
+      this.markDirty();
     }
   }
 
@@ -141,7 +389,24 @@ export class HashService {
    * Remove file from cache
    */
   removeFromCache(path: string): void {
-    delete this.cache[path];
+    if (this.cache[path]) {
+      this.addTombstone(path, this.cache[path].hash);
+      delete this.cache[path];
+      this.markDirty();
+    }
+  }
+
+  /**
+   * Remember the hash of an image that left a path
+   */
+  private addTombstone(path: string, hash: string): void {
+    delete this.tombstones[path];
+    this.tombstones[path] = hash;
+
+    const paths = Object.keys(this.tombstones);
+    for (const stale of paths.slice(0, Math.max(0, paths.length - MAX_TOMBSTONES))) {
+      delete this.tombstones[stale];
+    }
   }
 
   /**
@@ -155,18 +420,75 @@ export class HashService {
     return null;
   }
 
+  /**
+   * Get the last known hash for a path, even if the file has since gone missing
+   */
+  getCachedHash(path: string): string | null {
+    return this.cache[path]?.hash ?? this.tombstones[path] ?? null;
+  }
+
+  /**
+   * Last known hash of a link target that no longer resolves: a removed or moved image,
+   * or a trashed one. Bare file names (e.g. "x.png" from a wikilink) match by name,
+   * most recently removed first.
+   */
+  getLastKnownHash(target: string): string | null {
+    const hash = this.getCachedHash(target);
+    if (hash) return hash;
+
+    const trashed = this.plugin.trashService.getItems().find((item) => item.originalPath === target && item.hash);
+    if (trashed) return trashed.hash;
+
+    if (target.includes('/')) return null;
+
+    const name = target.toLowerCase();
+    const byName = (path: string) => (path.split('/').pop() || '').toLowerCase() === name;
+
+    const tombstone = Object.keys(this.tombstones).reverse().find(byName);
+    if (tombstone) return this.tombstones[tombstone];
+
+    return this.plugin.trashService.getItems().find((item) => byName(item.originalPath) && item.hash)?.hash ?? null;
+  }
+
+  /**
+   * Find existing images whose cached hash matches
+   */
+  findCachedPathsByHash(hash: string): string[] {
+    return Object.entries(this.cache)
+      .filter(([path, entry]) => entry.hash === hash && this.plugin.app.vault.getAbstractFileByPath(path) instanceof TFile)
+      .map(([path]) => path);
+  }
+
   /**
    * Rebuild entire hash cache
    */
   async rebuildCache(): Promise<void> {
     this.cache = {};
-    const images = this.plugin.app.vault.getFiles().filter((f) => isImageFile(f.path));
+    await this.plugin.hashIndexer.indexAll();
+    await this.saveCache();
+  }
 
-    for (const image of images) {
-      await this.calculateHash(image);
-    }
+  /**
+   * Whether a file's cache entry is current (and has a perceptual hash, if asked for)
+   */
+  isIndexed(file: TFile, perceptual = false): boolean {
+    const entry = this.cache[file.path];
+    return (
+      !!entry &&
+      entry.mtime === file.stat.mtime &&
+      entry.size === file.stat.size &&
+      (!perceptual || entry.phash !== undefined)
+    );
+  }
 
-    await this.saveCache();
+  /**
+   * Cache entries of vault images that are current
+   */
+  private getIndexedEntries(perceptual = false): Array<{ path: string; entry: HashCache[string] }> {
+    return this.plugin.app.vault
+      .getFiles()
+      .filter((f) => isImageFile(f.path) && this.isIndexed(f, perceptual))
+      .map((f) => ({ path: f.path, entry: this.cache[f.path] }));
   }
 
   /**
@@ -184,13 +506,10 @@ export class HashService {
   async findAllDuplicates(): Promise<Map<string, string[]>> {
     const hashToFiles = new Map<string, string[]>();
 
-    const images = this.plugin.app.vault.getFiles().filter((f) => isImageFile(f.path));
-
-    for (const image of images) {
-      const hash = await this.calculateHash(image);
-      const existing = hashToFiles.get(hash) || [];
-      existing.push(image.path);
-      hashToFiles.set(hash, existing);
+    for (const { path, entry } of this.getIndexedEntries()) {
+      const existing = hashToFiles.get(entry.hash) || [];
+      existing.push(path);
+      hashToFiles.set(entry.hash, existing);
     }
 
     // Filter to only duplicates (more than one file with same hash)
@@ -203,4 +522,123 @@ export class HashService {
 
     return duplicates;
   }
+
+  /**
+   * Calculate perceptual hash for an image file; null if it can't be decoded
+   */
+  async calculatePerceptualHash(file: TFile): Promise<string | null> {
+    // Make sure the cache entry is current so a stale phash is never reused
+    await this.calculateHash(file);
+    const entry = this.cache[file.path];
+    if (entry.phash !== undefined) {
+      return entry.phash || null;
+    }
+
+    const data = await this.plugin.app.vault.readBinary(file);
+    const phash = await computePerceptualHash(data, file.extension === 'svg' ? 'image/svg+xml' : '');
+    entry.phash = phash ?? '';
+    this.markDirty();
+
+    return phash;
+  }
+
+  /**
+   * Find images that look like the given data, closest first
+   */
+  async findSimilar(data: ArrayBuffer, maxDistance: number, mimeType = ''): Promise<SimilarImage[]> {
+    const phash = await computePerceptualHash(data, mimeType);
+    if (!phash) return [];
+
+    const similar: SimilarImage[] = [];
+
+    for (const { path, entry } of this.getIndexedEntries(true)) {
+      if (!entry.phash) continue;
+
+      const distance = hammingDistance(phash, entry.phash);
+      if (distance <= maxDistance) {
+        similar.push({ path, distance });
+      }
+    }
+
+    return similar.sort((a, b) => a.distance - b.distance);
+  }
+
+  /**
+   * Perceptual-hash distance between two indexed images, or null if either has none
+   */
+  getPerceptualDistance(a: string, b: string): number | null {
+    const aHash = this.cache[a]?.phash;
+    const bHash = this.cache[b]?.phash;
+    return aHash && bHash ? hammingDistance(aHash, bHash) : null;
+  }
+
+  /**
+   * Find groups of visually similar images in vault.
+   * Each group is built around a centre image and only holds images within maxDistance of it,
+   * so similarity is never chained from one image to the next.
+   */
+  async findAllSimilar(maxDistance: number): Promise<Array<{ centre: string; paths: string[] }>> {
+    const { paths, pairs } = await this.getSimilarPairs();
+
+    const neighbours = new Map<number, number[]>();
+    for (const [a, b, distance] of pairs) {
+      if (distance > maxDistance) continue;
+      neighbours.set(a, [...(neighbours.get(a) || []), b]);
+      neighbours.set(b, [...(neighbours.get(b) || []), a]);
+    }
+
+    // Images with the most close matches become centres first
+    const centres = Array.from(neighbours.keys()).sort(
+      (a, b) => (neighbours.get(b)?.length ?? 0) - (neighbours.get(a)?.length ?? 0) || a - b
+    );
+    const grouped = new Set<number>();
+    const groups: Array<{ centre: string; paths: string[] }> = [];
+
+    for (const centre of centres) {
+      if (grouped.has(centre)) continue;
+      const members = (neighbours.get(centre) || []).filter((index) => !grouped.has(index));
+      if (members.length === 0) continue;
+
+      grouped.add(centre);
+      members.forEach((index) => grouped.add(index));
+      groups.push({ centre: paths[centre], paths: [centre, ...members].map((index) => paths[index]) });
+    }
+
+    return groups;
+  }
+
+  /**
+   * All pairs of indexed images within MAX_SIMILARITY_DISTANCE.
+   * Computed once per cache version and in slices, so changing the threshold only re-filters them.
+   */
+  private async getSimilarPairs(): Promise<SimilarPairs> {
+    if (this.similarPairs && this.similarPairs.version === this.version) {
+      return this.similarPairs;
+    }
+
+    const version = this.version;
+    const hashed = this.getIndexedEntries(true).filter(({ entry }) => entry.phash);
+    const paths = hashed.map(({ path }) => path);
+    const words = hashed.map(({ entry }) => splitHash(entry.phash as string));
+    const pairs: Array<[number, number, number]> = [];
+
+    let sliceStart = Date.now();
+    for (let i = 0; i < words.length; i++) {
+      const [high, low] = words[i];
+      for (let j = i + 1; j < words.length; j++) {
+        const distance = popcount(high ^ words[j][0]) + popcount(low ^ words[j][1]);
+        if (distance <= MAX_SIMILARITY_DISTANCE) {
+          pairs.push([i, j, distance]);
+        }
+      }
+
+      if (Date.now() - sliceStart > COMPARE_SLICE_MS) {
+        await waitForIdle();
+        sliceStart = Date.now();
+      }
+    }
+
+    this.similarPairs = { version, paths, pairs };
+    return this.similarPairs;
+  }
 }
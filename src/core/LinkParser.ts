@@ -0,0 +1,444 @@
+import { ParsedImageLink, HtmlImageRef } from '../types';
+
+/**
+ * LinkParser is a small markdown-aware tokenizer for image embeds:
+ * - Skips fenced code blocks and inline code spans
+ * - Understands ![[target#sub|alias]] and ![alt](<dest> "title")
+ * - Finds <img src> and <img|source srcset> URLs in raw HTML
+ * - Reports source offsets so rewrites only touch the link target
+ */
+
+export interface TextEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface FrontmatterLink {
+  isWikilink: boolean;
+  path: string;                    // Link target without subpath or alias
+  prefix: string;                  // Text before the path, e.g. "[["
+  suffix: string;                  // Text after the path, e.g. "|Cover]]"
+}
+
+/**
+ * Find [start, end) ranges of fenced code blocks and inline code spans
+ */
+export function findCodeRanges(content: string): Array<[number, number]> {
+  const ranges: Array<[number, number]> = [];
+
+  // Fenced code blocks (``` or ~~~, closed by a fence of the same char and at least the same length)
+  let offset = 0;
+  let fence: { char: string; length: number; start: number } | null = null;
+  const proseRanges: Array<[number, number]> = [];
+  let proseStart = 0;
+
+  for (const line of content.split('\n')) {
+    const lineEnd = offset + line.length;
+    const match = line.match(/^ {0,3}(`{3,}|~{3,})/);
+
+    if (!fence && match) {
+      fence = { char: match[1][0], length: match[1].length, start: offset };
+      proseRanges.push([proseStart, offset]);
+    } else if (fence && match && match[1][0] === fence.char && match[1].length >= fence.length
+      && line.trim() === match[1]) {
+      ranges.push([fence.start, lineEnd]);
+      fence = null;
+      proseStart = lineEnd;
+    }
+
+    offset = lineEnd + 1;
+  }
+
+  if (fence) {
+    ranges.push([fence.start, content.length]);
+  } else {
+    proseRanges.push([proseStart, content.length]);
+  }
+
+  // Inline code spans: a run of N backticks closed by the next run of exactly N backticks
+  for (const [from, to] of proseRanges) {
+    let i = from;
+    while (i < to) {
+      if (content[i] !== '`') {
+        i++;
+        continue;
+      }
+
+      let runEnd = i;
+      while (runEnd < to && content[runEnd] === '`') runEnd++;
+      const runLength = runEnd - i;
+
+      // Code spans do not continue past a blank line
+      const paragraphEnd = content.indexOf('\n\n', runEnd);
+      const limit = paragraphEnd >= 0 && paragraphEnd < to ? paragraphEnd : to;
+
+      let closeStart = -1;
+      let j = runEnd;
+      while (j < limit) {
+        if (content[j] === '`') {
+          let k = j;
+          while (k < limit && content[k] === '`') k++;
+          if (k - j === runLength) {
+            closeStart = j;
+            break;
+          }
+          j = k;
+        } else {
+          j++;
+        }
+      }
+
+      if (closeStart >= 0) {
+        ranges.push([i, closeStart + runLength]);
+        i = closeStart + runLength;
+      } else {
+        i = runEnd;
+      }
+    }
+  }
+
+  return ranges.sort((a, b) => a[0] - b[0]);
+}
+
+/**
+ * Parse all image embeds outside code, in source order
+ */
+export function parseImageEmbeds(content: string): ParsedImageLink[] {
+  const links: ParsedImageLink[] = [];
+  const codeRanges = findCodeRanges(content);
+  let rangeIndex = 0;
+  let i = 0;
+
+  while (i < content.length) {
+    // Skip code
+    while (rangeIndex < codeRanges.length && codeRanges[rangeIndex][1] <= i) rangeIndex++;
+    if (rangeIndex < codeRanges.length && codeRanges[rangeIndex][0] <= i) {
+      i = codeRanges[rangeIndex][1];
+      continue;
+    }
+
+    if (content[i] === '!' && content[i + 1] === '[' && !isEscaped(content, i)) {
+      const link = content[i + 2] === '['
+        ? parseWikiEmbed(content, i)
+        : parseMarkdownEmbed(content, i);
+      if (link) {
+        links.push(link);
+        i = link.end;
+        continue;
+      }
+    }
+
+    i++;
+  }
+
+  return links;
+}
+
+/**
+ * Parse image URLs from HTML <img> and <picture><source> tags outside code, in source order
+ */
+export function parseHtmlImageRefs(content: string): HtmlImageRef[] {
+  const refs: HtmlImageRef[] = [];
+  const codeRanges = findCodeRanges(content);
+  const tagPattern = /<(img|source)\b[^>]*>/gi;
+  let tagMatch: RegExpExecArray | null;
+
+  while ((tagMatch = tagPattern.exec(content)) !== null) {
+    const tagStart = tagMatch.index;
+    if (codeRanges.some(([from, to]) => tagStart >= from && tagStart < to)) continue;
+
+    const tag = tagMatch[1].toLowerCase() as HtmlImageRef['tag'];
+    const attrPattern = /\s(src|srcset)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/gi;
+    let attrMatch: RegExpExecArray | null;
+
+    while ((attrMatch = attrPattern.exec(tagMatch[0])) !== null) {
+      const attribute = attrMatch[1].toLowerCase() as HtmlImageRef['attribute'];
+      if (tag === 'source' && attribute === 'src') continue;
+
+      const value = attrMatch[2] ?? attrMatch[3] ?? attrMatch[4] ?? '';
+      const valueStart = tagStart + attrMatch.index + attrMatch[0].length - value.length
+        - (attrMatch[4] !== undefined ? 0 : 1);
+
+      if (attribute === 'src') {
+        const leading = value.length - value.replace(/^\s+/, '').length;
+        const url = value.trim();
+        if (url) refs.push(createHtmlImageRef(tag, attribute, url, valueStart + leading));
+        continue;
+      }
+
+      // srcset: comma-separated "url [descriptor]" candidates
+      const candidatePattern = /([^\s,][^\s]*?)(?:\s+[^,]*)?(?:,|$)/g;
+      let candidate: RegExpExecArray | null;
+      while ((candidate = candidatePattern.exec(value)) !== null) {
+        if (candidate[0] === '') {
+          candidatePattern.lastIndex++;
+          continue;
+        }
+        const url = candidate[1].replace(/,$/, '');
+        if (url) refs.push(createHtmlImageRef(tag, attribute, url, valueStart + candidate.index));
+      }
+    }
+  }
+
+  return refs;
+}
+
+/**
+ * Parse a frontmatter property value as a link: "[[covers/a.jpg]]" or a plain path
+ */
+export function parseFrontmatterLink(value: string): FrontmatterLink | null {
+  if (!value || value.includes('\n')) return null;
+
+  const wikiMatch = value.match(/^(\s*!?\[\[)([^\]|#^]+)((?:[#^][^\]|]*)?(?:\|[^\]]*)?\]\]\s*)$/);
+  if (wikiMatch) {
+    return { isWikilink: true, prefix: wikiMatch[1], path: wikiMatch[2], suffix: wikiMatch[3] };
+  }
+
+  const trimmed = value.trim();
+  if (!trimmed || trimmed.includes('[[')) return null;
+
+  const start = value.indexOf(trimmed);
+  return {
+    isWikilink: false,
+    prefix: value.substring(0, start),
+    path: trimmed,
+    suffix: value.substring(start + trimmed.length),
+  };
+}
+
+/**
+ * Apply non-overlapping edits to the content
+ */
+export function applyTextEdits(content: string, edits: TextEdit[]): string {
+  let result = content;
+  for (const edit of [...edits].sort((a, b) => b.start - a.start)) {
+    result = result.substring(0, edit.start) + edit.text + result.substring(edit.end);
+  }
+  return result;
+}
+
+/**
+ * Encode a path for use as a markdown link destination.
+ * Spaces are always encoded and parentheses only when unbalanced;
+ * fullEncoding uses encodeURI style (non-ASCII characters encoded too).
+ */
+export function encodeMarkdownTarget(path: string, fullEncoding = false): string {
+  let result = fullEncoding ? encodeURI(path) : path.replace(/%/g, '%25').replace(/ /g, '%20');
+  if (!hasBalancedParens(result)) {
+    result = result.replace(/\(/g, '%28').replace(/\)/g, '%29');
+  }
+  return result;
+}
+
+/**
+ * Check whether a raw markdown destination uses encodeURI-style encoding
+ */
+export function isFullyEncoded(rawTarget: string, decodedPath: string): boolean {
+  try {
+    return rawTarget === encodeURI(decodedPath) && rawTarget !== decodedPath.replace(/ /g, '%20');
+  } catch (error) {
+    return false;
+  }
+}
+
+function parseWikiEmbed(content: string, start: number): ParsedImageLink | null {
+  const innerStart = start + 3;
+  const close = content.indexOf(']]', innerStart);
+  if (close < 0) return null;
+
+  const inner = content.substring(innerStart, close);
+  if (!inner || inner.includes('\n')) return null;
+
+  const pipe = inner.indexOf('|');
+  const target = pipe >= 0 ? inner.substring(0, pipe) : inner;
+  const alias = pipe >= 0 ? inner.substring(pipe + 1) : '';
+
+  const hash = target.search(/[#^]/);
+  const path = hash >= 0 ? target.substring(0, hash) : target;
+  const subpath = hash >= 0 ? target.substring(hash) : '';
+
+  return {
+    link: target,
+    isWikilink: true,
+    fullMatch: content.substring(start, close + 2),
+    alias,
+    start,
+    end: close + 2,
+    path,
+    subpath,
+    targetStart: innerStart,
+    targetEnd: innerStart + path.length,
+    title: '',
+    angleBrackets: false,
+    encoded: false,
+  };
+}
+
+function parseMarkdownEmbed(content: string, start: number): ParsedImageLink | null {
+  // Alt text with balanced brackets
+  let i = start + 2;
+  let depth = 1;
+  while (i < content.length) {
+    const ch = content[i];
+    if (ch === '\\') {
+      i += 2;
+      continue;
+    }
+    if (ch === '\n' && content[i + 1] === '\n') return null;
+    if (ch === '[') depth++;
+    if (ch === ']') {
+      depth--;
+      if (depth === 0) break;
+    }
+    i++;
+  }
+  if (depth !== 0 || content[i + 1] !== '(') return null;
+
+  const alt = content.substring(start + 2, i);
+  i += 2;
+  while (content[i] === ' ' || content[i] === '\t') i++;
+
+  let targetStart: number;
+  let targetEnd: number;
+  let angleBrackets = false;
+
+  if (content[i] === '<') {
+    // <destination with spaces>
+    const close = content.indexOf('>', i + 1);
+    const newline = content.indexOf('\n', i + 1);
+    if (close < 0 || (newline >= 0 && newline < close)) return null;
+    targetStart = i + 1;
+    targetEnd = close;
+    angleBrackets = true;
+    i = close + 1;
+  } else {
+    // Bare destination: no spaces, balanced parentheses
+    targetStart = i;
+    let parens = 0;
+    while (i < content.length) {
+      const ch = content[i];
+      if (ch === '\\' && i + 1 < content.length) {
+        i += 2;
+        continue;
+      }
+      if (ch === ' ' || ch === '\t' || ch === '\n') break;
+      if (ch === '(') parens++;
+      if (ch === ')') {
+        if (parens === 0) break;
+        parens--;
+      }
+      i++;
+    }
+    targetEnd = i;
+  }
+
+  // Optional title
+  let title = '';
+  let j = i;
+  while (content[j] === ' ' || content[j] === '\t') j++;
+  if (j > i && (content[j] === '"' || content[j] === '\'' || content[j] === '(')) {
+    const closeChar = content[j] === '(' ? ')' : content[j];
+    const close = content.indexOf(closeChar, j + 1);
+    if (close >= 0 && !content.substring(j, close).includes('\n\n')) {
+      title = content.substring(j, close + 1);
+      j = close + 1;
+      while (content[j] === ' ' || content[j] === '\t') j++;
+    }
+  }
+
+  if (content[j] !== ')') {
+    // Lenient fallback: Obsidian accepts unencoded spaces, so take everything up to the
+    // closing ")" on this line (keeping balanced parentheses and a trailing quoted title)
+    if (angleBrackets) return null;
+    let k = targetStart;
+    let parens = 0;
+    while (k < content.length && content[k] !== '\n') {
+      if (content[k] === '(') parens++;
+      if (content[k] === ')') {
+        if (parens === 0) break;
+        parens--;
+      }
+      k++;
+    }
+    if (content[k] !== ')') return null;
+
+    const inner = content.substring(targetStart, k);
+    const titleMatch = inner.match(/\s+("[^"]*"|'[^']*')\s*$/);
+    title = titleMatch ? titleMatch[1] : '';
+    targetEnd = targetStart + (titleMatch ? inner.length - titleMatch[0].length : inner.replace(/\s+$/, '').length);
+    j = k;
+  }
+
+  if (targetEnd <= targetStart) return null;
+
+  const rawTarget = content.substring(targetStart, targetEnd);
+  const encoded = /%[0-9A-Fa-f]{2}/.test(rawTarget);
+  let decoded = rawTarget.replace(/\\([()<> ])/g, '$1');
+  if (encoded) {
+    try {
+      decoded = decodeURIComponent(decoded);
+    } catch (error) {
+      // Not valid percent-encoding; keep the raw text
+    }
+  }
+
+  // Split off a #heading subpath; the target range covers the path part only
+  const hashInRaw = rawTarget.indexOf('#');
+  const hashInDecoded = decoded.indexOf('#');
+  const path = hashInDecoded >= 0 ? decoded.substring(0, hashInDecoded) : decoded;
+  const subpath = hashInDecoded >= 0 ? decoded.substring(hashInDecoded) : '';
+
+  return {
+    link: rawTarget,
+    isWikilink: false,
+    fullMatch: content.substring(start, j + 1),
+    alias: alt,
+    start,
+    end: j + 1,
+    path,
+    subpath,
+    targetStart,
+    targetEnd: hashInRaw >= 0 ? targetStart + hashInRaw : targetEnd,
+    title,
+    angleBrackets,
+    encoded,
+  };
+}
+
+function createHtmlImageRef(
+  tag: HtmlImageRef['tag'],
+  attribute: HtmlImageRef['attribute'],
+  raw: string,
+  start: number
+): HtmlImageRef {
+  const encoded = /%[0-9A-Fa-f]{2}/.test(raw);
+  let path = raw.replace(/&amp;/g, '&');
+  if (encoded) {
+    try {
+      path = decodeURIComponent(path);
+    } catch (error) {
+      // Not valid percent-encoding; keep the raw text
+    }
+  }
+
+  return { tag, attribute, raw, path, start, end: start + raw.length, encoded };
+}
+
+function isEscaped(content: string, index: number): boolean {
+  let backslashes = 0;
+  for (let i = index - 1; i >= 0 && content[i] === '\\'; i--) backslashes++;
+  return backslashes % 2 === 1;
+}
+
+function hasBalancedParens(text: string): boolean {
+  let depth = 0;
+  for (const ch of text) {
+    if (ch === '(') depth++;
+    if (ch === ')') {
+      depth--;
+      if (depth < 0) return false;
+    }
+  }
+  return depth === 0;
+}
@@ -1,10 +1,26 @@
-import { TFile } from 'obsidian';
+import { TFile, normalizePath } from 'obsidian';
+import { CanvasData, CanvasFileData } from 'obsidian/canvas';
 import ImageMasterPlugin from '../main';
+import { LinkFormat, LinkConversionPlan, ParsedImageLink, HtmlImageRef, JournalEntry, isImageFile } from '../types';
+import {
+  TextEdit,
+  parseImageEmbeds,
+  parseHtmlImageRefs,
+  parseFrontmatterLink,
+  applyTextEdits,
+  encodeMarkdownTarget,
+  isFullyEncoded,
+} from './LinkParser';
+import { t } from '../i18n';
+
+// How a link target was written, so a rewrite can keep the same form
+type LinkTargetForm = 'absolute' | 'relative' | 'vault' | 'name';
 
 /**
- * LinkUpdater handles updating image references in notes:
+ * LinkUpdater handles updating image references in notes and canvases:
  * - Update all notes when an image is renamed/moved
- * - Parse and update wikilinks and markdown links
+ * - Parse and update wikilinks, markdown links, HTML <img> URLs and frontmatter properties
+ * - Update file nodes in .canvas files
  */
 export class LinkUpdater {
   private plugin: ImageMasterPlugin;
@@ -16,14 +32,19 @@ export class LinkUpdater {
   /**
    * Update all references to an image when it's renamed/moved
    */
-  async updateImageReferences(oldPath: string, newPath: string): Promise<number> {
+  async updateImageReferences(oldPath: string, newPath: string, entry?: JournalEntry): Promise<number> {
     const notesToUpdate = this.findNotesReferencingImage(oldPath);
     let updatedCount = 0;
 
     for (const notePath of notesToUpdate) {
       const file = this.plugin.app.vault.getAbstractFileByPath(notePath);
       if (file && file instanceof TFile) {
-        const updated = await this.updateLinksInNote(file, oldPath, newPath);
+        const update = () => file.extension === 'canvas'
+          ? this.updateLinksInCanvas(file, oldPath, newPath)
+          : this.updateLinksInNote(file, oldPath, newPath);
+        const updated = entry
+          ? await this.plugin.journal.trackModify(entry, file, update)
+          : await update();
         if (updated) {
           updatedCount++;
         }
@@ -55,6 +76,13 @@ export class LinkUpdater {
       }
     }
 
+    // HTML <img>, plain-path frontmatter and canvas references are not in resolvedLinks
+    for (const sourcePath of this.plugin.referenceIndex.getReferencingSources(imagePath)) {
+      if (!notes.includes(sourcePath)) {
+        notes.push(sourcePath);
+      }
+    }
+
     return notes;
   }
 
@@ -62,61 +90,349 @@ export class LinkUpdater {
    * Update image links in a single note
    */
   async updateLinksInNote(noteFile: TFile, oldPath: string, newPath: string): Promise<boolean> {
-    let content = await this.plugin.app.vault.read(noteFile);
-    const originalContent = content;
+    let changed = false;
+
+    await this.plugin.app.vault.process(noteFile, (content) => {
+      const updated = this.rewriteLinksInContent(content, noteFile.path, oldPath, newPath);
+      changed = updated !== content;
+      return updated;
+    });
+
+    const frontmatterChanged = await this.updateFrontmatterLinks(noteFile, oldPath, newPath);
+
+    return changed || frontmatterChanged;
+  }
+
+  /**
+   * Update image file nodes in a canvas
+   */
+  async updateLinksInCanvas(canvasFile: TFile, oldPath: string, newPath: string): Promise<boolean> {
+    let changed = false;
+
+    await this.plugin.app.vault.process(canvasFile, (content) => {
+      const updated = this.rewriteCanvasContent(content, oldPath, newPath);
+      changed = updated !== content;
+      return updated;
+    });
+
+    return changed;
+  }
+
+  /**
+   * Retarget canvas file nodes pointing at oldPath. Content that isn't valid canvas JSON is left as is.
+   */
+  rewriteCanvasContent(content: string, oldPath: string, newPath: string): string {
+    const canvas = this.parseCanvas(content);
+    if (!canvas) return content;
+
+    let changed = false;
+    for (const node of canvas.nodes) {
+      if (node.type === 'file' && node.file === oldPath) {
+        node.file = newPath;
+        changed = true;
+      }
+    }
+
+    // Obsidian writes canvas files tab-indented
+    return changed ? JSON.stringify(canvas, null, '\t') : content;
+  }
+
+  /**
+   * Get the image paths of all file nodes in a canvas
+   */
+  getCanvasImagePaths(content: string): string[] {
+    const canvas = this.parseCanvas(content);
+    if (!canvas) return [];
+
+    return canvas.nodes
+      .filter((node): node is CanvasFileData => node.type === 'file' && typeof node.file === 'string')
+      .map((node) => normalizePath(node.file))
+      .filter((path) => isImageFile(path));
+  }
 
-    const oldName = oldPath.split('/').pop() || '';
-    const newName = newPath.split('/').pop() || '';
+  private parseCanvas(content: string): CanvasData | null {
+    if (!content.trim()) return null;
 
-    // Update wikilinks: ![[path]] or ![[name]]
-    // Pattern 1: Full path wikilink
-    content = content.replace(
-      new RegExp(`!\\[\\[${this.escapeRegex(oldPath)}(\\|[^\\]]*)?\\]\\]`, 'g'),
-      `![[${newPath}$1]]`
+    try {
+      const canvas = JSON.parse(content) as CanvasData;
+      return Array.isArray(canvas?.nodes) ? canvas : null;
+    } catch (error) {
+      console.error('Failed to parse canvas:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Rewrite frontmatter properties (strings and lists) that point at oldPath.
+   * Goes through processFrontMatter so the YAML stays valid.
+   */
+  async updateFrontmatterLinks(noteFile: TFile, oldPath: string, newPath: string): Promise<boolean> {
+    const frontmatter = this.plugin.app.metadataCache.getFileCache(noteFile)?.frontmatter;
+    if (!frontmatter) return false;
+
+    const rewrite = (value: unknown): unknown => {
+      if (typeof value === 'string') {
+        return this.rewriteFrontmatterValue(value, noteFile.path, oldPath, newPath);
+      }
+      if (Array.isArray(value)) {
+        return value.map((item) => rewrite(item));
+      }
+      return value;
+    };
+
+    // Dry run on the cached frontmatter so untouched notes aren't re-serialized
+    const needsUpdate = Object.values(frontmatter).some(
+      (value) => JSON.stringify(rewrite(value)) !== JSON.stringify(value)
     );
+    if (!needsUpdate) return false;
+
+    let changed = false;
+    await this.plugin.app.fileManager.processFrontMatter(noteFile, (fm: Record<string, unknown>) => {
+      for (const key of Object.keys(fm)) {
+        const updated = rewrite(fm[key]);
+        if (JSON.stringify(updated) !== JSON.stringify(fm[key])) {
+          fm[key] = updated;
+          changed = true;
+        }
+      }
+    });
+
+    return changed;
+  }
+
+  /**
+   * Retarget a single frontmatter value, keeping its wikilink/plain form, subpath and alias
+   */
+  rewriteFrontmatterValue(value: string, notePath: string, oldPath: string, newPath: string): string {
+    const link = parseFrontmatterLink(value);
+    if (!link || (!link.isWikilink && !isImageFile(link.path))) return value;
+
+    const form = this.matchLinkTarget({ path: link.path, isWikilink: true }, notePath, oldPath);
+    if (!form) return value;
+
+    const target = this.buildTargetPath(link.path, form, notePath, oldPath, newPath);
+    return link.prefix + target + link.suffix;
+  }
+
+  /**
+   * Resolve a frontmatter value to the path of the image it references, if any
+   */
+  resolveFrontmatterImage(value: string, notePath: string): string | null {
+    const link = parseFrontmatterLink(value);
+    if (!link || (!link.isWikilink && !isImageFile(link.path))) return null;
+
+    const file = this.resolveImageLink(link, notePath);
+    return file && isImageFile(file.path) ? file.path : null;
+  }
+
+  /**
+   * Retarget every embed and HTML image URL of oldPath in the content to newPath.
+   * Only the path part is replaced, so aliases, sizes, titles, subpaths,
+   * angle brackets and the link's encoding style are kept.
+   */
+  rewriteLinksInContent(content: string, notePath: string, oldPath: string, newPath: string): string {
+    const edits: TextEdit[] = [];
+
+    for (const link of parseImageEmbeds(content)) {
+      const form = this.matchLinkTarget(link, notePath, oldPath);
+      if (!form) continue;
+
+      const newTarget = this.formatLinkTarget(link, form, notePath, oldPath, newPath);
+      const oldTarget = content.substring(link.targetStart, link.targetEnd);
+      if (newTarget !== oldTarget) {
+        edits.push({ start: link.targetStart, end: link.targetEnd, text: newTarget });
+      }
+    }
+
+    for (const ref of parseHtmlImageRefs(content)) {
+      const form = this.matchHtmlTarget(ref, notePath, oldPath);
+      if (!form) continue;
+
+      const target = this.buildTargetPath(ref.path, form, notePath, oldPath, newPath);
+      const newUrl = ref.encoded || /\s/.test(target)
+        ? encodeMarkdownTarget(target, isFullyEncoded(ref.raw, ref.path))
+        : target;
+      if (newUrl !== ref.raw) {
+        edits.push({ start: ref.start, end: ref.end, text: newUrl });
+      }
+    }
+
+    return applyTextEdits(content, edits);
+  }
+
+  /**
+   * Work out whether a link points at the given path and how it was written:
+   * vault-absolute ("/a/b.png"), note-relative, vault path, or bare file name.
+   * Resolution is done on paths because the file at oldPath no longer exists after a rename.
+   */
+  private matchLinkTarget(
+    link: Pick<ParsedImageLink, 'path' | 'isWikilink'>,
+    notePath: string,
+    targetPath: string
+  ): LinkTargetForm | null {
+    const path = link.path.trim();
+    if (!path || /^[a-z][a-z0-9+.-]*:/i.test(path)) return null;
+
+    const matches = (candidate: string, expected = targetPath) =>
+      candidate === expected ||
+      (!/\.[^./]+$/.test(candidate) && candidate === expected.replace(/\.[^./]+$/, ''));
+
+    if (path.startsWith('/')) {
+      return matches(normalizePath(path.substring(1))) ? 'absolute' : null;
+    }
+
+    if (path.startsWith('./') || path.startsWith('../')) {
+      return matches(this.resolveRelativePath(notePath, path)) ? 'relative' : null;
+    }
 
-    // Pattern 2: Name-only wikilink (if name changed)
-    if (oldName !== newName) {
-      content = content.replace(
-        new RegExp(`!\\[\\[${this.escapeRegex(oldName)}(\\|[^\\]]*)?\\]\\]`, 'g'),
-        (match) => {
-          // Only replace if it's actually referencing this image
-          const resolvedPath = this.plugin.app.metadataCache.getFirstLinkpathDest(
-            oldName,
-            noteFile.path
-          );
-          if (resolvedPath?.path === oldPath) {
-            return match.replace(oldName, newName);
-          }
-          return match;
+    if (!link.isWikilink && path.includes('/') && matches(this.resolveRelativePath(notePath, './' + path))) {
+      return 'relative';
+    }
+
+    if (matches(normalizePath(path))) {
+      return 'vault';
+    }
+
+    // Bare name: only if nothing else in the vault claims it now
+    if (!path.includes('/')) {
+      const targetName = targetPath.split('/').pop() || '';
+      if (matches(path, targetName)) {
+        const resolved = this.plugin.app.metadataCache.getFirstLinkpathDest(path, notePath);
+        if (!resolved || resolved.path === targetPath) {
+          return 'name';
         }
-      );
+      }
     }
 
-    // Update markdown links: ![alt](path)
-    // Pattern 1: Absolute path
-    content = content.replace(
-      new RegExp(`!\\[([^\\]]*)\\]\\(/?${this.escapeRegex(oldPath)}\\)`, 'g'),
-      `![$1](/${newPath})`
-    );
+    return null;
+  }
+
+  /**
+   * Build the new path part of a link, in the same form and encoding as the original
+   */
+  private formatLinkTarget(
+    link: ParsedImageLink,
+    form: LinkTargetForm,
+    notePath: string,
+    oldPath: string,
+    newPath: string
+  ): string {
+    const target = this.buildTargetPath(link.path, form, notePath, oldPath, newPath);
+
+    if (link.isWikilink || link.angleBrackets) {
+      return target;
+    }
+
+    const raw = link.link.substring(0, link.targetEnd - link.targetStart);
+    const needsEncoding = link.encoded || /[ ()<>]/.test(target);
+    return needsEncoding ? encodeMarkdownTarget(target, isFullyEncoded(raw, link.path)) : target;
+  }
+
+  /**
+   * Build the new unencoded target path in the same form as the original one
+   */
+  private buildTargetPath(
+    originalPath: string,
+    form: LinkTargetForm,
+    notePath: string,
+    oldPath: string,
+    newPath: string
+  ): string {
+    const noteFolder = notePath.substring(0, notePath.lastIndexOf('/')) || '';
+    const newName = newPath.split('/').pop() || newPath;
+    let target: string;
+
+    switch (form) {
+      case 'absolute':
+        target = '/' + newPath;
+        break;
+      case 'relative': {
+        const relative = this.getRelativePath(noteFolder, newPath);
+        target = originalPath.startsWith('./') || originalPath.startsWith('../')
+          ? relative
+          : relative.replace(/^\.\//, '');
+        break;
+      }
+      case 'name': {
+        // Keep the short form only while the new name still resolves uniquely
+        const resolved = this.plugin.app.metadataCache.getFirstLinkpathDest(newName, notePath);
+        target = !resolved || resolved.path === newPath ? newName : newPath;
+        break;
+      }
+      case 'vault':
+      default:
+        target = newPath;
+    }
+
+    // Links written without an extension stay without one
+    if (!/\.[^./]+$/.test(originalPath) && oldPath.split('.').pop() === newPath.split('.').pop()) {
+      target = target.replace(/\.[^./]+$/, '');
+    }
+
+    return target;
+  }
+
+  /**
+   * Work out whether an HTML src/srcset URL points at the given path.
+   * Plain paths are relative to the note, falling back to a vault path.
+   */
+  private matchHtmlTarget(ref: HtmlImageRef, notePath: string, targetPath: string): LinkTargetForm | null {
+    const path = ref.path.trim();
+    if (!path || /^[a-z][a-z0-9+.-]*:/i.test(path)) return null;
+
+    if (path.startsWith('/')) {
+      return normalizePath(path.substring(1)) === targetPath ? 'absolute' : null;
+    }
+
+    const relativePath = path.startsWith('./') || path.startsWith('../') ? path : './' + path;
+    if (this.resolveRelativePath(notePath, relativePath) === targetPath) {
+      return 'relative';
+    }
+
+    return normalizePath(path) === targetPath ? 'vault' : null;
+  }
 
-    // Pattern 2: Relative path - need to recalculate
-    const noteFolder = noteFile.path.substring(0, noteFile.path.lastIndexOf('/')) || '';
-    const oldRelative = this.getRelativePath(noteFolder, oldPath);
-    const newRelative = this.getRelativePath(noteFolder, newPath);
+  /**
+   * Resolve an HTML src/srcset URL to a vault path (relative to the note first, then the vault root).
+   * Returns the note-relative path for missing files so the reference is picked up once the image exists.
+   */
+  resolveHtmlImagePath(url: string, notePath: string): string | null {
+    const path = url.trim();
+    if (!path || /^[a-z][a-z0-9+.-]*:/i.test(path)) return null; // External URL or data URI
 
-    content = content.replace(
-      new RegExp(`!\\[([^\\]]*)\\]\\(${this.escapeRegex(oldRelative)}\\)`, 'g'),
-      `![$1](${newRelative})`
+    if (path.startsWith('/')) {
+      return normalizePath(path.substring(1));
+    }
+
+    const relativePath = this.resolveRelativePath(
+      notePath,
+      path.startsWith('./') || path.startsWith('../') ? path : './' + path
     );
+    if (this.plugin.app.vault.getAbstractFileByPath(relativePath)) {
+      return relativePath;
+    }
 
-    // Only write if changed
-    if (content !== originalContent) {
-      await this.plugin.app.vault.modify(noteFile, content);
-      return true;
+    const vaultPath = normalizePath(path);
+    if (!path.startsWith('.') && this.plugin.app.vault.getAbstractFileByPath(vaultPath)) {
+      return vaultPath;
     }
 
-    return false;
+    return isImageFile(relativePath) ? relativePath : null;
+  }
+
+  /**
+   * Resolve a "./" or "../" path against the folder of a note
+   */
+  private resolveRelativePath(notePath: string, relativePath: string): string {
+    const parts = notePath.split('/').slice(0, -1);
+    for (const part of relativePath.split('/')) {
+      if (part === '..') {
+        parts.pop();
+      } else if (part && part !== '.') {
+        parts.push(part);
+      }
+    }
+    return normalizePath(parts.join('/'));
   }
 
   /**
@@ -157,12 +473,14 @@ export class LinkUpdater {
     updates: Array<{ oldPath: string; newPath: string }>
   ): Promise<number> {
     let totalUpdated = 0;
+    const entry = this.plugin.journal.begin(t('journal.title.batchUpdate', { count: updates.length }));
 
     for (const { oldPath, newPath } of updates) {
-      const count = await this.updateImageReferences(oldPath, newPath);
+      const count = await this.updateImageReferences(oldPath, newPath, entry);
       totalUpdated += count;
     }
 
+    await this.plugin.journal.commit(entry);
     return totalUpdated;
   }
 
@@ -193,61 +511,157 @@ export class LinkUpdater {
   }
 
   /**
-   * Escape special regex characters
+   * Parse all image links from a note's content (code blocks and inline code are skipped)
    */
-  private escapeRegex(str: string): string {
-    return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  parseImageLinks(content: string): ParsedImageLink[] {
+    return parseImageEmbeds(content);
   }
 
   /**
-   * Parse all image links from a note's content
+   * Resolve a parsed link to a vault file, the way Obsidian resolves embeds.
+   * Markdown targets may be vault-absolute ("/x.png") or relative ("./x.png").
    */
-  parseImageLinks(content: string): Array<{ link: string; isWikilink: boolean; fullMatch: string }> {
-    const links: Array<{ link: string; isWikilink: boolean; fullMatch: string }> = [];
+  resolveImageLink(link: Pick<ParsedImageLink, 'path'>, notePath: string): TFile | null {
+    const target = link.path.trim();
+    if (!target || /^[a-z][a-z0-9+.-]*:/i.test(target)) return null; // External URL or data URI
+
+    let candidate: string | null = null;
+    if (target.startsWith('/')) {
+      candidate = normalizePath(target.substring(1));
+    } else if (target.startsWith('./') || target.startsWith('../')) {
+      candidate = this.resolveRelativePath(notePath, target);
+    }
 
-    // Wikilinks: ![[path]] or ![[path|alias]]
-    const wikilinkRegex = /!\[\[([^\]|]+)(\|[^\]]*)?]]/g;
-    let match;
-    while ((match = wikilinkRegex.exec(content)) !== null) {
-      links.push({
-        link: match[1],
-        isWikilink: true,
-        fullMatch: match[0],
-      });
+    if (candidate !== null) {
+      const file = this.plugin.app.vault.getAbstractFileByPath(candidate);
+      return file instanceof TFile ? file : null;
     }
 
-    // Markdown links: ![alt](path)
-    const markdownRegex = /!\[([^\]]*)\]\(([^)]+)\)/g;
-    while ((match = markdownRegex.exec(content)) !== null) {
-      links.push({
-        link: match[2],
-        isWikilink: false,
-        fullMatch: match[0],
+    return this.plugin.app.metadataCache.getFirstLinkpathDest(target, notePath);
+  }
+
+  /**
+   * Rewrite every resolvable image embed in the content to the given link format,
+   * keeping aliases, sizes and markdown titles
+   */
+  convertLinksInContent(
+    content: string,
+    noteFile: TFile,
+    format: LinkFormat
+  ): { content: string; changes: Array<{ from: string; to: string }>; unresolved: string[] } {
+    const changes: Array<{ from: string; to: string }> = [];
+    const unresolved: string[] = [];
+    const edits: TextEdit[] = [];
+
+    for (const parsed of this.parseImageLinks(content)) {
+      const file = this.resolveImageLink(parsed, noteFile.path);
+      if (!file) {
+        if (isImageFile(parsed.path)) {
+          unresolved.push(parsed.fullMatch);
+        }
+        continue;
+      }
+      if (!isImageFile(file.path)) continue;
+
+      let converted = this.plugin.fileManager.formatImageLink(file.path, noteFile, {
+        format,
+        alias: parsed.alias,
       });
+      if (parsed.title && converted.endsWith(')')) {
+        converted = `${converted.slice(0, -1)} ${parsed.title})`;
+      }
+
+      if (converted !== parsed.fullMatch) {
+        changes.push({ from: parsed.fullMatch, to: converted });
+        edits.push({ start: parsed.start, end: parsed.end, text: converted });
+      }
+    }
+
+    return { content: applyTextEdits(content, edits), changes, unresolved };
+  }
+
+  /**
+   * Compute the link format conversion for a set of notes without writing anything
+   */
+  async planLinkConversion(notes: TFile[], format: LinkFormat): Promise<LinkConversionPlan[]> {
+    const plans: LinkConversionPlan[] = [];
+
+    for (const note of notes) {
+      const content = await this.plugin.app.vault.cachedRead(note);
+      const { changes, unresolved } = this.convertLinksInContent(content, note, format);
+      if (changes.length > 0 || unresolved.length > 0) {
+        plans.push({ notePath: note.path, changes, unresolved });
+      }
+    }
+
+    return plans;
+  }
+
+  /**
+   * Apply a link format conversion. Each note is converted again from its
+   * current content, so edits made after the preview are not lost.
+   */
+  async applyLinkConversion(plans: LinkConversionPlan[], format: LinkFormat): Promise<number> {
+    let updatedCount = 0;
+    const entry = this.plugin.journal.begin(t('journal.title.convertLinks'));
+
+    for (const plan of plans) {
+      if (plan.changes.length === 0) continue;
+
+      const file = this.plugin.app.vault.getAbstractFileByPath(plan.notePath);
+      if (!(file instanceof TFile)) continue;
+
+      let changed = false;
+      await this.plugin.journal.trackModify(entry, file, () =>
+        this.plugin.app.vault.process(file, (content) => {
+          const result = this.convertLinksInContent(content, file, format);
+          changed = result.content !== content;
+          return result.content;
+        })
+      );
+
+      if (changed) {
+        updatedCount++;
+      }
     }
 
-    return links;
+    await this.plugin.journal.commit(entry);
+    return updatedCount;
   }
 
   /**
    * Validate all image links in a note
    */
-  async validateImageLinks(noteFile: TFile): Promise<Array<{ link: string; exists: boolean }>> {
-    const content = await this.plugin.app.vault.read(noteFile);
+  async validateImageLinks(
+    noteFile: TFile
+  ): Promise<Array<{ link: string; exists: boolean; parsed: ParsedImageLink }>> {
+    const content = await this.plugin.app.vault.cachedRead(noteFile);
     const links = this.parseImageLinks(content);
-    const results: Array<{ link: string; exists: boolean }> = [];
+    const results: Array<{ link: string; exists: boolean; parsed: ParsedImageLink }> = [];
 
-    for (const { link } of links) {
-      const resolvedFile = this.plugin.app.metadataCache.getFirstLinkpathDest(
-        link,
-        noteFile.path
-      );
+    for (const parsed of links) {
       results.push({
-        link,
-        exists: resolvedFile !== null,
+        link: parsed.link,
+        exists: this.resolveImageLink(parsed, noteFile.path) !== null,
+        parsed,
       });
     }
 
     return results;
   }
+
+  /**
+   * Get the vault path a link points to, whether or not the file exists
+   */
+  getLinkTargetPath(link: Pick<ParsedImageLink, 'path' | 'isWikilink'>, notePath: string): string {
+    const path = link.path.trim();
+
+    if (path.startsWith('/')) {
+      return normalizePath(path.substring(1));
+    }
+    if (path.startsWith('./') || path.startsWith('../') || (!link.isWikilink && path.includes('/'))) {
+      return this.resolveRelativePath(notePath, path.startsWith('.') ? path : './' + path);
+    }
+    return normalizePath(path);
+  }
 }
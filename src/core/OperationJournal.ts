@@ -0,0 +1,266 @@
+import { TFile, TFolder, normalizePath } from 'obsidian';
+import ImageMasterPlugin from '../main';
+import { JournalAction, JournalEntry } from '../types';
+
+// Keep the journal file small; older entries can no longer be undone
+const MAX_ENTRIES = 100;
+// Characters of unchanged text kept on each side of a note change
+const DIFF_CONTEXT_LENGTH = 16;
+
+/**
+ * OperationJournal records what the plugin changes so it can be undone:
+ * - Moves, folder creations/deletions, note rewrites (as diffs) and trashed images
+ * - Persisted in .image-master/journal.json
+ * - Undo replays the actions of an entry in reverse
+ */
+export class OperationJournal {
+  private plugin: ImageMasterPlugin;
+  private entries: JournalEntry[] = [];
+  private undoing = false;
+  private readonly JOURNAL_FILE = '.image-master/journal.json';
+
+  constructor(plugin: ImageMasterPlugin) {
+    this.plugin = plugin;
+  }
+
+  /**
+   * Load journal from disk
+   */
+  async loadJournal(): Promise<void> {
+    try {
+      const journalPath = normalizePath(this.JOURNAL_FILE);
+      if (await this.plugin.app.vault.adapter.exists(journalPath)) {
+        const content = await this.plugin.app.vault.adapter.read(journalPath);
+        this.entries = JSON.parse(content);
+      }
+    } catch (error) {
+      console.error('Failed to load operation journal:', error);
+      this.entries = [];
+    }
+  }
+
+  /**
+   * Save journal to disk
+   */
+  async saveJournal(): Promise<void> {
+    try {
+      const journalPath = normalizePath(this.JOURNAL_FILE);
+      const journalFolder = journalPath.substring(0, journalPath.lastIndexOf('/'));
+
+      if (!(await this.plugin.app.vault.adapter.exists(journalFolder))) {
+        await this.plugin.app.vault.adapter.mkdir(journalFolder);
+      }
+
+      await this.plugin.app.vault.adapter.write(journalPath, JSON.stringify(this.entries, null, 2));
+    } catch (error) {
+      console.error('Failed to save operation journal:', error);
+    }
+  }
+
+  /**
+   * Start a new entry; it is only stored once committed with at least one action
+   */
+  begin(title: string): JournalEntry {
+    return {
+      id: `${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 8)}`,
+      title,
+      timestamp: Date.now(),
+      actions: [],
+    };
+  }
+
+  record(entry: JournalEntry, action: JournalAction): void {
+    entry.actions.push(action);
+  }
+
+  /**
+   * Run a note/canvas modification and record it as a diff
+   */
+  async trackModify<T>(entry: JournalEntry, file: TFile, modify: () => Promise<T>): Promise<T> {
+    const before = await this.plugin.app.vault.read(file);
+    const result = await modify();
+    const after = await this.plugin.app.vault.read(file);
+
+    if (before !== after) {
+      this.record(entry, { type: 'modify', path: file.path, ...this.diff(before, after) });
+    }
+
+    return result;
+  }
+
+  /**
+   * Delete an image through the TrashService; only plugin trash can be undone
+   */
+  async trashFile(entry: JournalEntry, file: TFile): Promise<void> {
+    const path = file.path;
+    const item = await this.plugin.trashService.trashImage(file);
+    if (item) {
+      this.record(entry, { type: 'trash', path, trashId: item.id });
+    }
+  }
+
+  async commit(entry: JournalEntry): Promise<void> {
+    if (entry.actions.length === 0) return;
+
+    this.entries.push(entry);
+    if (this.entries.length > MAX_ENTRIES) {
+      this.entries = this.entries.slice(-MAX_ENTRIES);
+    }
+    await this.saveJournal();
+  }
+
+  /**
+   * Entries, newest first
+   */
+  getEntries(): JournalEntry[] {
+    return [...this.entries].reverse();
+  }
+
+  getLastUndoableEntry(): JournalEntry | null {
+    for (let i = this.entries.length - 1; i >= 0; i--) {
+      if (!this.entries[i].undoneAt) return this.entries[i];
+    }
+    return null;
+  }
+
+  /**
+   * Whether an undo is replaying changes (event handlers should not react to them)
+   */
+  isUndoing(): boolean {
+    return this.undoing;
+  }
+
+  /**
+   * Revert an entry's actions in reverse order
+   */
+  async undo(entryId: string): Promise<{ reverted: number; failed: number }> {
+    const entry = this.entries.find((e) => e.id === entryId);
+    if (!entry || entry.undoneAt) return { reverted: 0, failed: 0 };
+
+    let reverted = 0;
+    let failed = 0;
+    this.undoing = true;
+
+    try {
+      for (const action of [...entry.actions].reverse()) {
+        try {
+          if (await this.revertAction(action)) {
+            reverted++;
+          } else {
+            failed++;
+          }
+        } catch (error) {
+          console.error(`Failed to undo ${action.type} of ${action.type === 'rename' ? action.to : action.path}:`, error);
+          failed++;
+        }
+      }
+    } finally {
+      this.undoing = false;
+    }
+
+    entry.undoneAt = Date.now();
+    await this.saveJournal();
+
+    return { reverted, failed };
+  }
+
+  private async revertAction(action: JournalAction): Promise<boolean> {
+    const { vault } = this.plugin.app;
+
+    switch (action.type) {
+      case 'rename': {
+        const file = vault.getAbstractFileByPath(action.to);
+        if (!file || vault.getAbstractFileByPath(action.from)) return false;
+
+        await this.ensureParentFolder(action.from);
+        await vault.rename(file, action.from);
+        return true;
+      }
+
+      case 'createFolder': {
+        const folder = vault.getAbstractFileByPath(action.path);
+        if (!(folder instanceof TFolder) || folder.children.length > 0) return false;
+
+        await vault.delete(folder);
+        return true;
+      }
+
+      case 'deleteFolder':
+        if (vault.getAbstractFileByPath(action.path)) return true;
+        await vault.createFolder(action.path);
+        return true;
+
+      case 'modify': {
+        const file = vault.getAbstractFileByPath(action.path);
+        if (!(file instanceof TFile)) return false;
+
+        const before = action.before ?? '';
+        const after = action.after ?? '';
+        const matchesAt = (content: string, offset: number) =>
+          content.substring(offset - before.length, offset) === before &&
+          content.substring(offset, offset + action.inserted.length) === action.inserted &&
+          content.substring(offset + action.inserted.length, offset + action.inserted.length + after.length) === after;
+
+        let restored = false;
+        await vault.process(file, (content) => {
+          // Prefer the recorded offset; fall back to a unique match of the change and its context
+          // if the note was edited since. Give up rather than restore text in the wrong place.
+          let offset = matchesAt(content, action.offset) ? action.offset : -1;
+          if (offset < 0) {
+            const needle = before + action.inserted + after;
+            const index = content.indexOf(needle);
+            if (needle && index >= 0 && index === content.lastIndexOf(needle)) {
+              offset = index + before.length;
+            }
+          }
+          if (offset < 0) return content;
+
+          restored = true;
+          return content.substring(0, offset) + action.removed + content.substring(offset + action.inserted.length);
+        });
+        return restored;
+      }
+
+      case 'trash':
+        if (!this.plugin.trashService.getItem(action.trashId)) return false;
+        return (await this.plugin.trashService.restore(action.trashId)) !== null;
+    }
+  }
+
+  /**
+   * Single-hunk diff: the changed region between the common prefix and suffix,
+   * plus some surrounding context so undo can tell the change is still where it was
+   */
+  private diff(
+    before: string,
+    after: string
+  ): { offset: number; removed: string; inserted: string; before: string; after: string } {
+    let prefix = 0;
+    const maxPrefix = Math.min(before.length, after.length);
+    while (prefix < maxPrefix && before[prefix] === after[prefix]) prefix++;
+
+    let suffix = 0;
+    const maxSuffix = maxPrefix - prefix;
+    while (
+      suffix < maxSuffix &&
+      before[before.length - 1 - suffix] === after[after.length - 1 - suffix]
+    ) {
+      suffix++;
+    }
+
+    return {
+      offset: prefix,
+      removed: before.substring(prefix, before.length - suffix),
+      inserted: after.substring(prefix, after.length - suffix),
+      before: after.substring(Math.max(0, prefix - DIFF_CONTEXT_LENGTH), prefix),
+      after: after.substring(after.length - suffix, after.length - suffix + DIFF_CONTEXT_LENGTH),
+    };
+  }
+
+  private async ensureParentFolder(path: string): Promise<void> {
+    const folder = path.substring(0, path.lastIndexOf('/'));
+    if (folder && !this.plugin.app.vault.getAbstractFileByPath(folder)) {
+      await this.plugin.app.vault.createFolder(folder);
+    }
+  }
+}
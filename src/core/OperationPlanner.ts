@@ -0,0 +1,233 @@
+import { TFile, TFolder, normalizePath } from 'obsidian';
+import ImageMasterPlugin from '../main';
+import { OperationPlan, PlanStep, StepResult } from '../types';
+import { reviewOperationPlan } from '../ui/modals/OperationPlanModal';
+import { t } from '../i18n';
+
+export interface PlannedMove {
+  from: string;
+  to: string;
+}
+
+export interface MovePlanOptions {
+  avoidConflicts?: boolean;        // Pick "name_1.ext" instead of skipping when the target exists
+  cleanupFolders?: string[];       // Folders to delete if the plan empties them
+}
+
+/**
+ * OperationPlanner is the dry-run layer for bulk file operations:
+ * - Compute folder creations, renames, note rewrites and deletions up front
+ * - Detect conflicts before anything is touched
+ * - Execute after review and report each step as applied, skipped or failed
+ */
+export class OperationPlanner {
+  private plugin: ImageMasterPlugin;
+
+  // Images moved by a running plan; their link rewrites are plan steps
+  private plannedMoves: Set<string> = new Set();
+
+  constructor(plugin: ImageMasterPlugin) {
+    this.plugin = plugin;
+  }
+
+  /**
+   * Plan moving files, including the note rewrites each move causes
+   */
+  planMoves(title: string, moves: PlannedMove[], options: MovePlanOptions = {}): OperationPlan {
+    const { vault } = this.plugin.app;
+    const folderSteps: PlanStep[] = [];
+    const renameSteps: PlanStep[] = [];
+    const rewriteSteps: PlanStep[] = [];
+    const deleteSteps: PlanStep[] = [];
+    const claimedTargets = new Set<string>();
+    const plannedFolders = new Set<string>();
+    const movedSources = new Set<string>();
+
+    for (const move of moves) {
+      const from = normalizePath(move.from);
+      let to = normalizePath(move.to);
+      if (from === to) continue;
+
+      const step: PlanStep = { type: 'rename', path: from, newPath: to };
+      const isTaken = (path: string) =>
+        claimedTargets.has(path) || (vault.getAbstractFileByPath(path) !== null && path !== from);
+
+      if (!(vault.getAbstractFileByPath(from) instanceof TFile)) {
+        step.conflict = t('plan.conflict.missing');
+      } else if (isTaken(to)) {
+        if (options.avoidConflicts) {
+          to = this.findAvailablePath(to, isTaken);
+          step.newPath = to;
+        } else {
+          step.conflict = claimedTargets.has(to) ? t('plan.conflict.duplicate') : t('plan.conflict.exists');
+        }
+      }
+
+      renameSteps.push(step);
+      if (step.conflict) continue;
+
+      claimedTargets.add(to);
+      movedSources.add(from);
+
+      const folder = to.substring(0, to.lastIndexOf('/'));
+      if (folder && !vault.getAbstractFileByPath(folder) && !plannedFolders.has(folder)) {
+        plannedFolders.add(folder);
+        folderSteps.push({ type: 'createFolder', path: folder });
+      }
+
+      for (const sourcePath of this.plugin.linkUpdater.findNotesReferencingImage(from)) {
+        rewriteSteps.push({ type: 'rewriteNote', path: sourcePath, oldImagePath: from, newImagePath: to });
+      }
+    }
+
+    for (const folderPath of options.cleanupFolders ?? []) {
+      const folder = vault.getAbstractFileByPath(normalizePath(folderPath));
+      if (folder instanceof TFolder && this.isEmptiedBy(folder, movedSources)) {
+        deleteSteps.push({ type: 'delete', path: folder.path });
+      }
+    }
+
+    return { title, steps: [...folderSteps, ...renameSteps, ...rewriteSteps, ...deleteSteps] };
+  }
+
+  /**
+   * Show the plan for review and execute it after confirmation.
+   * Returns null when cancelled; plans without steps run without asking.
+   */
+  async confirmAndExecute(plan: OperationPlan): Promise<StepResult[] | null> {
+    if (plan.steps.length === 0) return [];
+    return reviewOperationPlan(this.plugin.app, plan, () => this.execute(plan));
+  }
+
+  /**
+   * Execute a plan step by step
+   */
+  async execute(plan: OperationPlan): Promise<StepResult[]> {
+    const { vault } = this.plugin.app;
+    const results: StepResult[] = [];
+    const appliedMoves = new Set<string>();
+    const entry = this.plugin.journal.begin(plan.title);
+
+    for (const step of plan.steps) {
+      if (step.type === 'rename') {
+        this.plannedMoves.add(step.path);
+      }
+    }
+
+    try {
+      for (const step of plan.steps) {
+        if (step.conflict) {
+          results.push({ step, status: 'skipped', message: step.conflict });
+          continue;
+        }
+
+        try {
+          switch (step.type) {
+            case 'createFolder':
+              if (vault.getAbstractFileByPath(step.path)) {
+                results.push({ step, status: 'skipped', message: t('plan.status.exists') });
+              } else {
+                await vault.createFolder(step.path);
+                this.plugin.journal.record(entry, { type: 'createFolder', path: step.path });
+                results.push({ step, status: 'applied' });
+              }
+              break;
+
+            case 'rename': {
+              const file = vault.getAbstractFileByPath(step.path);
+              const newPath = step.newPath as string;
+              if (!(file instanceof TFile)) {
+                results.push({ step, status: 'failed', message: t('plan.conflict.missing') });
+              } else if (vault.getAbstractFileByPath(newPath)) {
+                results.push({ step, status: 'skipped', message: t('plan.conflict.exists') });
+              } else {
+                await vault.rename(file, newPath);
+                this.plugin.journal.record(entry, { type: 'rename', from: step.path, to: newPath });
+                appliedMoves.add(step.path);
+                results.push({ step, status: 'applied' });
+              }
+              break;
+            }
+
+            case 'rewriteNote': {
+              const file = vault.getAbstractFileByPath(step.path);
+              const oldImagePath = step.oldImagePath as string;
+              const newImagePath = step.newImagePath as string;
+              if (!appliedMoves.has(oldImagePath)) {
+                results.push({ step, status: 'skipped', message: t('plan.status.moveNotApplied') });
+              } else if (!(file instanceof TFile)) {
+                results.push({ step, status: 'failed', message: t('plan.conflict.missing') });
+              } else {
+                const changed = await this.plugin.journal.trackModify(entry, file, () =>
+                  file.extension === 'canvas'
+                    ? this.plugin.linkUpdater.updateLinksInCanvas(file, oldImagePath, newImagePath)
+                    : this.plugin.linkUpdater.updateLinksInNote(file, oldImagePath, newImagePath)
+                );
+                results.push(
+                  changed
+                    ? { step, status: 'applied' }
+                    : { step, status: 'skipped', message: t('plan.status.upToDate') }
+                );
+              }
+              break;
+            }
+
+            case 'delete': {
+              const folder = vault.getAbstractFileByPath(step.path);
+              if (folder instanceof TFolder && folder.children.length === 0) {
+                await vault.delete(folder);
+                this.plugin.journal.record(entry, { type: 'deleteFolder', path: step.path });
+                results.push({ step, status: 'applied' });
+              } else {
+                results.push({ step, status: 'skipped', message: t('plan.status.notEmpty') });
+              }
+              break;
+            }
+          }
+        } catch (error) {
+          console.error(`Failed to run ${step.type} step for ${step.path}:`, error);
+          results.push({ step, status: 'failed', message: String(error) });
+        }
+      }
+    } finally {
+      for (const step of plan.steps) {
+        this.plannedMoves.delete(step.path);
+      }
+      await this.plugin.journal.commit(entry);
+    }
+
+    return results;
+  }
+
+  /**
+   * Whether a running plan will rewrite the links of this moved image itself
+   */
+  isPlannedMove(oldPath: string): boolean {
+    return this.plannedMoves.has(oldPath);
+  }
+
+  /**
+   * Check whether a folder only contains files that the plan moves away
+   */
+  private isEmptiedBy(folder: TFolder, movedSources: Set<string>): boolean {
+    return folder.children.every((child) => child instanceof TFile && movedSources.has(child.path));
+  }
+
+  /**
+   * Add a numeric suffix until the path is free
+   */
+  private findAvailablePath(path: string, isTaken: (path: string) => boolean): string {
+    const folder = path.substring(0, path.lastIndexOf('/'));
+    const fileName = path.split('/').pop() || '';
+    const ext = fileName.includes('.') ? '.' + fileName.split('.').pop() : '';
+    const nameWithoutExt = ext ? fileName.slice(0, -ext.length) : fileName;
+
+    let counter = 1;
+    let candidate = path;
+    while (isTaken(candidate)) {
+      candidate = normalizePath(`${folder}/${nameWithoutExt}_${counter}${ext}`);
+      counter++;
+    }
+    return candidate;
+  }
+}
@@ -1,56 +1,146 @@
-import { TFile, TFolder, normalizePath, Notice } from 'obsidian';
+import { TFile, TFolder, debounce, normalizePath, Notice } from 'obsidian';
 import ImageMasterPlugin from '../main';
-import { ImageInfo, isImageFile } from '../types';
+import { ImageInfo, OrphanRegistry, daysSince, isImageFile, matchGlob } from '../types';
 import { t } from '../i18n';
 
+// Sidecar markers that keep an unreferenced image: "<image>.keep", or "<image>.md" with this frontmatter key
+const KEEP_FILE_EXTENSION = '.keep';
+const FRONTMATTER_KEEP_KEY = 'imagemaster-keep';
+
 /**
  * OrphanDetector handles detection and management of orphan images:
  * - Scan vault for unreferenced images
- * - Track orphan status
- * - Move orphans to designated folder
+ * - Track orphan status in a persisted registry (.image-master/orphans.json)
+ *   that remembers when each image first became orphaned
+ * - Move orphans to designated folder once their grace period has passed
+ * - Protect images matched by exclusion rules or keep markers from cleanup
  */
 export class OrphanDetector {
   private plugin: ImageMasterPlugin;
-  private orphanImages: Set<string> = new Set();
+  private registry: OrphanRegistry = {};
+  private readonly REGISTRY_FILE = '.image-master/orphans.json';
+  private saveQueue: Promise<void> = Promise.resolve();
+  // Coalesces saves requested from synchronous handlers
+  private requestSave = debounce(() => this.saveRegistry(), 1000, true);
+  // Expired orphans whose move the user last cancelled, and whether a move is being reviewed
+  private dismissedMove: string | null = null;
+  private reviewingMove = false;
 
   constructor(plugin: ImageMasterPlugin) {
     this.plugin = plugin;
   }
 
   /**
-   * Scan vault for orphan images (not referenced by any note)
+   * Load orphan registry from disk
    */
-  async scanOrphanImages(): Promise<string[]> {
-    const allImages = this.plugin.app.vault.getFiles().filter((f) => isImageFile(f.path));
-    const referencedImages = this.getAllReferencedImages();
+  async loadRegistry(): Promise<void> {
+    try {
+      const registryPath = normalizePath(this.REGISTRY_FILE);
+      if (await this.plugin.app.vault.adapter.exists(registryPath)) {
+        const content = await this.plugin.app.vault.adapter.read(registryPath);
+        this.registry = JSON.parse(content);
+      }
+    } catch (error) {
+      console.error('Failed to load orphan registry:', error);
+      this.registry = {};
+    }
+  }
 
-    const orphans: string[] = [];
-    this.orphanImages.clear();
+  /**
+   * Save orphan registry to disk; saves run one after another so writes never interleave
+   */
+  async saveRegistry(): Promise<void> {
+    this.requestSave.cancel();
+    this.saveQueue = this.saveQueue.then(() => this.writeRegistry());
+    return this.saveQueue;
+  }
 
-    for (const image of allImages) {
-      if (!referencedImages.has(image.path)) {
-        orphans.push(image.path);
-        this.orphanImages.add(image.path);
+  private async writeRegistry(): Promise<void> {
+    try {
+      const registryPath = normalizePath(this.REGISTRY_FILE);
+      const registryFolder = registryPath.substring(0, registryPath.lastIndexOf('/'));
+
+      if (!(await this.plugin.app.vault.adapter.exists(registryFolder))) {
+        await this.plugin.app.vault.adapter.mkdir(registryFolder);
       }
-    }
 
+      await this.plugin.app.vault.adapter.write(registryPath, JSON.stringify(this.registry, null, 2));
+    } catch (error) {
+      console.error('Failed to save orphan registry:', error);
+    }
+  }
 
-    // Handle orphans based on settings
-    if (this.plugin.settings.orphanHandling === 'moveToFolder' && orphans.length > 0) {
-      await this.moveOrphansToFolder(orphans);
+  /**
+   * Scan vault for orphan images (not referenced by any note).
+   * Background scans don't ask again about a move the user already dismissed.
+   */
+  async scanOrphanImages(interactive = false): Promise<string[]> {
+    const orphans = await this.findOrphans();
+
+    // Handle orphans based on settings; recently orphaned images get a grace period
+    // so content being cut and pasted between notes isn't moved away
+    if (this.plugin.settings.orphanHandling === 'moveToFolder' && !this.reviewingMove) {
+      const expired = orphans.filter((path) => this.isPastGracePeriod(path) && !this.isProtected(path));
+      const key = [...expired].sort().join('\n');
+      if (expired.length > 0 && (interactive || key !== this.dismissedMove)) {
+        this.reviewingMove = true;
+        try {
+          this.dismissedMove = (await this.moveOrphansToFolder(expired)) ? null : key;
+        } finally {
+          this.reviewingMove = false;
+        }
+      }
     }
 
     return orphans;
   }
 
   /**
-   * Get all images referenced by any note in the vault
+   * Find unreferenced images and record them in the registry
+   */
+  private async findOrphans(): Promise<string[]> {
+    // HTML, frontmatter and canvas references are only known once the index is built
+    await this.plugin.referenceIndex.ready;
+
+    const allImages = this.plugin.app.vault.getFiles().filter((f) => isImageFile(f.path));
+    const referencedImages = this.getAllReferencedImages();
+
+    const orphans = allImages
+      .filter((image) => !referencedImages.has(image.path))
+      .map((image) => image.path);
+    await this.syncRegistry(orphans);
+    return orphans;
+  }
+
+  /**
+   * Make the registry match the current orphans, keeping known first-orphaned times
+   */
+  private async syncRegistry(orphans: string[]): Promise<void> {
+    const now = Date.now();
+    const registry: OrphanRegistry = {};
+    for (const path of orphans) {
+      registry[path] = this.registry[path] ?? { since: now };
+    }
+
+    const changed =
+      Object.keys(registry).length !== Object.keys(this.registry).length ||
+      orphans.some((path) => !this.registry[path]);
+    this.registry = registry;
+
+    if (changed) {
+      await this.saveRegistry();
+    }
+  }
+
+  /**
+   * Get all images referenced by any note in the vault (outside excluded folders)
    */
   getAllReferencedImages(): Set<string> {
     const referenced = new Set<string>();
     const resolvedLinks = this.plugin.app.metadataCache.resolvedLinks;
 
-    for (const links of Object.values(resolvedLinks)) {
+    for (const [sourcePath, links] of Object.entries(resolvedLinks)) {
+      if (this.isExcludedPath(sourcePath)) continue;
       for (const linkedPath of Object.keys(links)) {
         if (isImageFile(linkedPath)) {
           referenced.add(linkedPath);
@@ -58,29 +148,41 @@ export class OrphanDetector {
       }
     }
 
+    // HTML <img>, plain-path frontmatter and canvas references are not in resolvedLinks
+    for (const imagePath of this.plugin.referenceIndex.getReferencedImages((path) => !this.isExcludedPath(path))) {
+      referenced.add(imagePath);
+    }
+
     return referenced;
   }
 
   /**
    * Check if a specific image is orphan
    */
-  isOrphan(imagePath: string): boolean {
-    // Check cache first
-    if (this.orphanImages.has(imagePath)) {
+  async isOrphan(imagePath: string): Promise<boolean> {
+    await this.plugin.referenceIndex.ready;
+
+    // Check registry first
+    if (this.registry[imagePath]) {
       return true;
     }
 
     // Check in resolved links
     const resolvedLinks = this.plugin.app.metadataCache.resolvedLinks;
 
-    for (const links of Object.values(resolvedLinks)) {
-      if (imagePath in links) {
+    for (const [sourcePath, links] of Object.entries(resolvedLinks)) {
+      if (imagePath in links && !this.isExcludedPath(sourcePath)) {
         return false;
       }
     }
 
+    if (this.plugin.referenceIndex.getReferencingSources(imagePath).some((path) => !this.isExcludedPath(path))) {
+      return false;
+    }
+
     // Not found in any note, it's an orphan
-    this.orphanImages.add(imagePath);
+    this.registry[imagePath] = { since: Date.now() };
+    this.requestSave();
     return true;
   }
 
@@ -88,67 +190,132 @@ export class OrphanDetector {
    * Get list of orphan images
    */
   getOrphanImages(): string[] {
-    return Array.from(this.orphanImages);
+    return Object.keys(this.registry);
   }
 
   /**
    * Get count of orphan images
    */
   getOrphanCount(): number {
-    return this.orphanImages.size;
+    return Object.keys(this.registry).length;
   }
 
   /**
-   * Move orphan images to designated folder
+   * When an image was first found unreferenced, or null if it isn't a known orphan
    */
-  async moveOrphansToFolder(orphanPaths: string[]): Promise<void> {
-    const targetFolder = this.plugin.settings.orphanFolder;
-    await this.ensureFolderExists(targetFolder);
+  getOrphanedSince(imagePath: string): number | null {
+    return this.registry[imagePath]?.since ?? null;
+  }
 
-    let movedCount = 0;
+  /**
+   * Whether an orphan has been unreferenced for longer than the grace period
+   */
+  isPastGracePeriod(imagePath: string): boolean {
+    const since = this.getOrphanedSince(imagePath);
+    return since !== null && daysSince(since) >= this.plugin.settings.orphanGraceDays;
+  }
 
-    for (const imagePath of orphanPaths) {
-      const file = this.plugin.app.vault.getAbstractFileByPath(imagePath);
-      if (file && file instanceof TFile) {
-        const fileName = file.name;
-        const newPath = normalizePath(`${targetFolder}/${fileName}`);
-
-        // Handle name conflicts
-        let finalPath = newPath;
-        let counter = 1;
-        while (await this.plugin.app.vault.adapter.exists(finalPath)) {
-          const ext = fileName.split('.').pop() || '';
-          const nameWithoutExt = fileName.replace(/\.[^.]+$/, '');
-          finalPath = normalizePath(`${targetFolder}/${nameWithoutExt}_${counter}.${ext}`);
-          counter++;
-        }
+  /**
+   * Whether an image is excluded from orphan cleanup: it lives in an excluded folder,
+   * matches an excluded filename pattern, has a keep marker, or is only used by notes
+   * in excluded folders (e.g. Templates/)
+   */
+  isProtected(imagePath: string, referencingNotes?: string[]): boolean {
+    const { settings } = this.plugin;
+    const name = imagePath.split('/').pop() || '';
 
-        try {
-          await this.plugin.app.vault.rename(file, finalPath);
-          movedCount++;
-        } catch (error) {
-          console.error(`Failed to move orphan image ${imagePath}:`, error);
-        }
-      }
-    }
+    if (this.isExcludedPath(imagePath)) return true;
+    if (settings.orphanExcludePatterns.some((pattern) => matchGlob(name, pattern))) return true;
+    if (this.hasKeepMarker(imagePath)) return true;
+
+    const sources = referencingNotes ?? this.plugin.linkUpdater.findNotesReferencingImage(imagePath);
+    return sources.length > 0 && sources.every((path) => this.isExcludedPath(path));
+  }
+
+  /**
+   * Whether a path is inside one of the excluded folders
+   */
+  private isExcludedPath(path: string): boolean {
+    return this.plugin.settings.orphanExcludeFolders.some((glob) => matchGlob(path, glob));
+  }
+
+  /**
+   * Check for a "<image>.keep" sidecar file or a "<image>.md" sidecar note with the keep key
+   */
+  private hasKeepMarker(imagePath: string): boolean {
+    const { vault, metadataCache } = this.plugin.app;
+    if (vault.getAbstractFileByPath(imagePath + KEEP_FILE_EXTENSION)) return true;
+
+    const sidecar = vault.getAbstractFileByPath(`${imagePath}.md`);
+    if (!(sidecar instanceof TFile)) return false;
+
+    const value = metadataCache.getFileCache(sidecar)?.frontmatter?.[FRONTMATTER_KEEP_KEY];
+    return value !== undefined && value !== null && value !== false;
+  }
+
+  /**
+   * Keep the first-orphaned time when an orphan is renamed or moved
+   */
+  renameImage(oldPath: string, newPath: string): void {
+    const record = this.registry[oldPath];
+    if (!record) return;
+
+    delete this.registry[oldPath];
+    this.registry[newPath] = record;
+    this.requestSave();
+  }
+
+  /**
+   * Forget a deleted image
+   */
+  removeImage(imagePath: string): void {
+    if (!this.registry[imagePath]) return;
+
+    delete this.registry[imagePath];
+    this.requestSave();
+  }
 
+  /**
+   * Move orphan images to designated folder. Returns false if the user cancelled the move.
+   */
+  async moveOrphansToFolder(orphanPaths: string[]): Promise<boolean> {
+    const targetFolder = normalizePath(this.plugin.settings.orphanFolder);
+
+    const moves = orphanPaths.map((imagePath) => ({
+      from: imagePath,
+      to: normalizePath(`${targetFolder}/${imagePath.split('/').pop() || ''}`),
+    }));
+
+    const plan = this.plugin.operationPlanner.planMoves(
+      t('plan.title.orphanMove', { count: moves.length, folder: targetFolder }),
+      moves,
+      { avoidConflicts: true }
+    );
+    const results = await this.plugin.operationPlanner.confirmAndExecute(plan);
+    if (!results) return false;
+
+    const movedCount = results.filter((r) => r.step.type === 'rename' && r.status === 'applied').length;
     if (movedCount > 0) {
       new Notice(t('notice.movedOrphans', { count: movedCount, folder: targetFolder }));
     }
+    return true;
   }
 
   /**
-   * Delete orphan images
+   * Delete orphan images (protected images are never deleted)
    */
   async deleteOrphanImages(imagePaths: string[]): Promise<number> {
     let deletedCount = 0;
+    const entry = this.plugin.journal.begin(t('journal.title.deleteOrphans', { count: imagePaths.length }));
 
     for (const imagePath of imagePaths) {
       const file = this.plugin.app.vault.getAbstractFileByPath(imagePath);
-      if (file && file instanceof TFile) {
+      if (this.isProtected(imagePath)) {
+        console.warn(`Skipped deleting protected image ${imagePath}`);
+      } else if (file && file instanceof TFile) {
         try {
-          await this.plugin.app.vault.delete(file);
-          this.orphanImages.delete(imagePath);
+          await this.plugin.journal.trashFile(entry, file);
+          delete this.registry[imagePath];
           deletedCount++;
         } catch (error) {
           console.error(`Failed to delete orphan image ${imagePath}:`, error);
@@ -156,6 +323,8 @@ export class OrphanDetector {
       }
     }
 
+    await this.plugin.journal.commit(entry);
+    await this.saveRegistry();
     return deletedCount;
   }
 
@@ -165,7 +334,7 @@ export class OrphanDetector {
   async getOrphanImageInfos(): Promise<ImageInfo[]> {
     const infos: ImageInfo[] = [];
 
-    for (const imagePath of this.orphanImages) {
+    for (const imagePath of Object.keys(this.registry)) {
       const file = this.plugin.app.vault.getAbstractFileByPath(imagePath);
       if (file && file instanceof TFile) {
         const info: ImageInfo = {
@@ -177,6 +346,8 @@ export class OrphanDetector {
           modified: file.stat.mtime,
           referencedBy: [],
           isOrphan: true,
+          orphanedSince: this.registry[imagePath].since,
+          isProtected: this.isProtected(imagePath),
         };
         infos.push(info);
       }
@@ -189,43 +360,36 @@ export class OrphanDetector {
    * Mark an image as no longer orphan
    */
   markAsReferenced(imagePath: string): void {
-    this.orphanImages.delete(imagePath);
-  }
+    if (!this.registry[imagePath]) return;
 
-  /**
-   * Clear orphan cache
-   */
-  clearCache(): void {
-    this.orphanImages.clear();
+    delete this.registry[imagePath];
+    this.requestSave();
   }
 
   /**
-   * Ensure folder exists
+   * Clear orphan registry
    */
-  private async ensureFolderExists(folderPath: string): Promise<void> {
-    if (!folderPath) return;
-
-    const normalizedPath = normalizePath(folderPath);
-    const folder = this.plugin.app.vault.getAbstractFileByPath(normalizedPath);
-
-    if (!folder) {
-      await this.plugin.app.vault.createFolder(normalizedPath);
-    }
+  clearCache(): void {
+    this.registry = {};
+    this.requestSave();
   }
 
   /**
    * Get all images with their reference info
    */
   async getAllImageInfos(): Promise<ImageInfo[]> {
+    await this.plugin.referenceIndex.ready;
+
     const allImages = this.plugin.app.vault.getFiles().filter((f) => isImageFile(f.path));
     const infos: ImageInfo[] = [];
+    const orphans: string[] = [];
 
     for (const image of allImages) {
       const referencingNotes = this.plugin.linkUpdater.findNotesReferencingImage(image.path);
-      const isOrphan = referencingNotes.length === 0;
+      const isOrphan = referencingNotes.every((path) => this.isExcludedPath(path));
 
       if (isOrphan) {
-        this.orphanImages.add(image.path);
+        orphans.push(image.path);
       }
 
       const info: ImageInfo = {
@@ -237,6 +401,7 @@ export class OrphanDetector {
         modified: image.stat.mtime,
         referencedBy: referencingNotes,
         isOrphan,
+        isProtected: this.isProtected(image.path, referencingNotes),
       };
 
       // Try to get image dimensions (would need additional processing)
@@ -245,6 +410,13 @@ export class OrphanDetector {
       infos.push(info);
     }
 
+    await this.syncRegistry(orphans);
+    for (const info of infos) {
+      if (info.isOrphan) {
+        info.orphanedSince = this.registry[info.path].since;
+      }
+    }
+
     return infos;
   }
 
@@ -258,7 +430,7 @@ export class OrphanDetector {
     totalSize: number;
     orphanSize: number;
   }> {
-    await this.scanOrphanImages();
+    await this.findOrphans();
 
     const allImages = this.plugin.app.vault.getFiles().filter((f) => isImageFile(f.path));
     let totalSize = 0;
@@ -266,15 +438,16 @@ export class OrphanDetector {
 
     for (const image of allImages) {
       totalSize += image.stat.size;
-      if (this.orphanImages.has(image.path)) {
+      if (this.registry[image.path]) {
         orphanSize += image.stat.size;
       }
     }
 
+    const orphanCount = this.getOrphanCount();
     return {
       total: allImages.length,
-      orphan: this.orphanImages.size,
-      inUse: allImages.length - this.orphanImages.size,
+      orphan: orphanCount,
+      inUse: allImages.length - orphanCount,
       totalSize,
       orphanSize,
     };
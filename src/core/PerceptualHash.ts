@@ -0,0 +1,94 @@
+/**
+ * Perceptual hashing for near-duplicate detection.
+ * Uses a difference hash (dHash): the image is shrunk to 9x8 grayscale pixels and each bit
+ * records whether a pixel is brighter than its right neighbour. Re-encoded, resized or
+ * recompressed copies of an image end up with hashes a few bits apart.
+ */
+
+const HASH_WIDTH = 8;
+const HASH_HEIGHT = 8;
+
+// Bumped when the hashing changes so cached hashes are recomputed
+export const PERCEPTUAL_HASH_VERSION = 2;
+
+// Largest distance the similarity threshold can be set to
+export const MAX_SIMILARITY_DISTANCE = 12;
+
+/**
+ * Compute the 64-bit dHash of an encoded image as 16 hex chars.
+ * Returns null when the image can't be decoded (e.g. SVG or a corrupt file).
+ */
+export async function computePerceptualHash(data: ArrayBuffer, mimeType = ''): Promise<string | null> {
+  if (mimeType === 'image/svg+xml') return null;
+
+  let bitmap: ImageBitmap | null = null;
+  try {
+    // Let the decoder do the downscale with proper filtering; shrinking a full-size image in
+    // one drawImage call aliases, which makes hashes of resized copies unstable
+    bitmap = await createImageBitmap(new Blob([data], mimeType ? { type: mimeType } : {}), {
+      resizeWidth: HASH_WIDTH + 1,
+      resizeHeight: HASH_HEIGHT,
+      resizeQuality: 'high',
+    });
+
+    const canvas = document.createElement('canvas');
+    canvas.width = HASH_WIDTH + 1;
+    canvas.height = HASH_HEIGHT;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+
+    ctx.drawImage(bitmap, 0, 0);
+    const pixels = ctx.getImageData(0, 0, HASH_WIDTH + 1, HASH_HEIGHT).data;
+
+    // Luminance of each pixel; transparent pixels count as white
+    const gray: number[] = [];
+    for (let i = 0; i < pixels.length; i += 4) {
+      const alpha = pixels[i + 3] / 255;
+      const luminance = 0.299 * pixels[i] + 0.587 * pixels[i + 1] + 0.114 * pixels[i + 2];
+      gray.push(luminance * alpha + 255 * (1 - alpha));
+    }
+
+    let hash = '';
+    for (let y = 0; y < HASH_HEIGHT; y++) {
+      for (let x = 0; x < HASH_WIDTH; x += 4) {
+        let nibble = 0;
+        for (let bit = 0; bit < 4; bit++) {
+          const index = y * (HASH_WIDTH + 1) + x + bit;
+          nibble = (nibble << 1) | (gray[index] > gray[index + 1] ? 1 : 0);
+        }
+        hash += nibble.toString(16);
+      }
+    }
+    return hash;
+  } catch (error) {
+    return null;
+  } finally {
+    bitmap?.close();
+  }
+}
+
+/**
+ * Split a perceptual hash into two 32-bit words for fast comparison
+ */
+export function splitHash(hash: string): [number, number] {
+  return [parseInt(hash.substring(0, 8), 16), parseInt(hash.substring(8, 16), 16)];
+}
+
+/**
+ * Number of set bits in a 32-bit word
+ */
+export function popcount(x: number): number {
+  x -= (x >>> 1) & 0x55555555;
+  x = (x & 0x33333333) + ((x >>> 2) & 0x33333333);
+  x = (x + (x >>> 4)) & 0x0f0f0f0f;
+  return Math.imul(x, 0x01010101) >>> 24;
+}
+
+/**
+ * Number of differing bits between two perceptual hashes
+ */
+export function hammingDistance(a: string, b: string): number {
+  const [aHigh, aLow] = splitHash(a);
+  const [bHigh, bLow] = splitHash(b);
+  return popcount(aHigh ^ bHigh) + popcount(aLow ^ bLow);
+}
@@ -0,0 +1,178 @@
+import { TFile } from 'obsidian';
+import ImageMasterPlugin from '../main';
+import { IndexedReference } from '../types';
+import { parseHtmlImageRefs } from './LinkParser';
+
+/**
+ * ReferenceIndex tracks image references that Obsidian's metadataCache
+ * doesn't know about (resolvedLinks only covers embeds and links):
+ * - HTML <img src> and <picture><source srcset> in notes
+ * - Frontmatter properties such as `cover: "[[a.jpg]]"` or `banner: assets/b.png`
+ * - File nodes in .canvas files
+ * - Kept up to date from metadataCache 'changed' and vault events
+ */
+export class ReferenceIndex {
+  private plugin: ImageMasterPlugin;
+  private references: Map<string, IndexedReference[]> = new Map();
+  private resolveReady: () => void;
+  /** Resolves once the first full index build has finished */
+  readonly ready: Promise<void>;
+
+  constructor(plugin: ImageMasterPlugin) {
+    this.plugin = plugin;
+    this.ready = new Promise((resolve) => {
+      this.resolveReady = resolve;
+    });
+  }
+
+  /**
+   * Index every note and canvas in the vault
+   */
+  async buildIndex(): Promise<void> {
+    this.references.clear();
+
+    const sources = this.plugin.app.vault
+      .getFiles()
+      .filter((file) => file.extension === 'md' || file.extension === 'canvas');
+
+    for (const source of sources) {
+      try {
+        const content = await this.plugin.app.vault.cachedRead(source);
+        if (source.extension === 'canvas') {
+          this.indexCanvas(source, content);
+        } else {
+          this.indexNote(source, content);
+        }
+      } catch (error) {
+        console.error(`Failed to index references in ${source.path}:`, error);
+      }
+    }
+
+    this.resolveReady();
+  }
+
+  /**
+   * (Re)index the file nodes of a canvas
+   */
+  indexCanvas(canvas: TFile, content: string): void {
+    const imagePaths = Array.from(new Set(this.plugin.linkUpdater.getCanvasImagePaths(content)));
+
+    if (imagePaths.length > 0) {
+      this.references.set(canvas.path, imagePaths.map((imagePath) => ({ imagePath, kind: 'canvas' })));
+    } else {
+      this.references.delete(canvas.path);
+    }
+  }
+
+  /**
+   * (Re)index a note from its content
+   */
+  indexNote(note: TFile, content: string): void {
+    const references: IndexedReference[] = [];
+
+    for (const ref of parseHtmlImageRefs(content)) {
+      const imagePath = this.plugin.linkUpdater.resolveHtmlImagePath(ref.path, note.path);
+      if (imagePath && !references.some((r) => r.imagePath === imagePath && r.kind === 'html')) {
+        references.push({ imagePath, kind: 'html' });
+      }
+    }
+
+    const frontmatter = this.plugin.app.metadataCache.getFileCache(note)?.frontmatter;
+    if (frontmatter) {
+      for (const [property, value] of Object.entries(frontmatter)) {
+        const values: unknown[] = Array.isArray(value) ? value : [value];
+        for (const item of values) {
+          if (typeof item !== 'string') continue;
+          const imagePath = this.plugin.linkUpdater.resolveFrontmatterImage(item, note.path);
+          if (imagePath && !references.some((r) => r.imagePath === imagePath && r.property === property)) {
+            references.push({ imagePath, kind: 'frontmatter', property });
+          }
+        }
+      }
+    }
+
+    if (references.length > 0) {
+      this.references.set(note.path, references);
+    } else {
+      this.references.delete(note.path);
+    }
+  }
+
+  /**
+   * Forget a deleted source file
+   */
+  removeSource(sourcePath: string): void {
+    this.references.delete(sourcePath);
+  }
+
+  /**
+   * Keep the entries of a renamed source file
+   */
+  renameSource(oldPath: string, newPath: string): void {
+    const references = this.references.get(oldPath);
+    if (references) {
+      this.references.delete(oldPath);
+      this.references.set(newPath, references);
+    }
+  }
+
+  /**
+   * Point entries at a renamed image until the sources are re-indexed
+   */
+  renameImage(oldPath: string, newPath: string): void {
+    for (const references of this.references.values()) {
+      for (const ref of references) {
+        if (ref.imagePath === oldPath) {
+          ref.imagePath = newPath;
+        }
+      }
+    }
+  }
+
+  /**
+   * Get paths of the files that reference an image
+   */
+  getReferencingSources(imagePath: string): string[] {
+    const sources: string[] = [];
+
+    for (const [sourcePath, references] of this.references) {
+      if (references.some((ref) => ref.imagePath === imagePath)) {
+        sources.push(sourcePath);
+      }
+    }
+
+    return sources;
+  }
+
+  /**
+   * Get references made by a single source file
+   */
+  getReferencesFrom(sourcePath: string): IndexedReference[] {
+    return this.references.get(sourcePath) ?? [];
+  }
+
+  /**
+   * Get the frontmatter properties through which a source references an image
+   */
+  getReferencingProperties(sourcePath: string, imagePath: string): string[] {
+    return this.getReferencesFrom(sourcePath)
+      .filter((ref) => ref.kind === 'frontmatter' && ref.imagePath === imagePath)
+      .map((ref) => ref.property as string);
+  }
+
+  /**
+   * Get every image referenced by any indexed source, optionally only by some sources
+   */
+  getReferencedImages(includeSource: (sourcePath: string) => boolean = () => true): Set<string> {
+    const images = new Set<string>();
+
+    for (const [sourcePath, references] of this.references) {
+      if (!includeSource(sourcePath)) continue;
+      for (const ref of references) {
+        images.add(ref.imagePath);
+      }
+    }
+
+    return images;
+  }
+}
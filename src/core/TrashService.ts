@@ -0,0 +1,234 @@
+import { TFile, normalizePath } from 'obsidian';
+import ImageMasterPlugin from '../main';
+import { TrashedImage } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * TrashService makes image deletion recoverable:
+ * - Keep deleted images under .image-master/trash with their original path,
+ *   hash, deletion time and the notes that last referenced them
+ * - Or hand them to Obsidian's own "Deleted files" handling
+ * - Restore (re-linking notes if the original path is taken) and purge expired items
+ */
+export class TrashService {
+  private plugin: ImageMasterPlugin;
+  private items: TrashedImage[] = [];
+  private readonly INDEX_FILE = '.image-master/trash.json';
+  private readonly TRASH_FOLDER = '.image-master/trash';
+
+  constructor(plugin: ImageMasterPlugin) {
+    this.plugin = plugin;
+  }
+
+  /**
+   * Load trash index from disk
+   */
+  async loadTrash(): Promise<void> {
+    try {
+      const indexPath = normalizePath(this.INDEX_FILE);
+      if (await this.plugin.app.vault.adapter.exists(indexPath)) {
+        const content = await this.plugin.app.vault.adapter.read(indexPath);
+        this.items = JSON.parse(content);
+      }
+    } catch (error) {
+      console.error('Failed to load image trash:', error);
+      this.items = [];
+    }
+  }
+
+  /**
+   * Save trash index to disk
+   */
+  async saveTrash(): Promise<void> {
+    try {
+      const indexPath = normalizePath(this.INDEX_FILE);
+      const indexFolder = indexPath.substring(0, indexPath.lastIndexOf('/'));
+
+      if (!(await this.plugin.app.vault.adapter.exists(indexFolder))) {
+        await this.plugin.app.vault.adapter.mkdir(indexFolder);
+      }
+
+      await this.plugin.app.vault.adapter.write(indexPath, JSON.stringify(this.items, null, 2));
+    } catch (error) {
+      console.error('Failed to save image trash:', error);
+    }
+  }
+
+  /**
+   * Delete an image according to the delete mode.
+   * Returns the trash item, or null when Obsidian's trash took the file.
+   */
+  async trashImage(file: TFile): Promise<TrashedImage | null> {
+    if (this.plugin.settings.deleteMode === 'obsidianTrash') {
+      await this.plugin.app.fileManager.trashFile(file);
+      return null;
+    }
+
+    const { adapter } = this.plugin.app.vault;
+    const id = `${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 8)}`;
+    const trashPath = normalizePath(`${this.TRASH_FOLDER}/${id}/${file.name}`);
+    const trashFolder = trashPath.substring(0, trashPath.lastIndexOf('/'));
+
+    const item: TrashedImage = {
+      id,
+      originalPath: file.path,
+      trashPath,
+      hash: await this.plugin.hashService.getHash(file.path),
+      size: file.stat.size,
+      deletedAt: Date.now(),
+      referencedBy: this.plugin.linkUpdater.findNotesReferencingImage(file.path),
+    };
+
+    if (!(await adapter.exists(trashFolder))) {
+      await adapter.mkdir(trashFolder);
+    }
+    await adapter.writeBinary(trashPath, await this.plugin.app.vault.readBinary(file));
+    await this.plugin.app.vault.delete(file);
+
+    this.items.push(item);
+    await this.saveTrash();
+    return item;
+  }
+
+  /**
+   * Trashed images, most recently deleted first
+   */
+  getItems(): TrashedImage[] {
+    return [...this.items].sort((a, b) => b.deletedAt - a.deletedAt);
+  }
+
+  getItem(id: string): TrashedImage | null {
+    return this.items.find((item) => item.id === id) ?? null;
+  }
+
+  /**
+   * Days until an item is purged, or null when retention is off
+   */
+  getDaysLeft(item: TrashedImage): number | null {
+    const retentionDays = this.plugin.settings.trashRetentionDays;
+    if (retentionDays <= 0) return null;
+    return Math.max(0, Math.ceil((item.deletedAt + retentionDays * DAY_MS - Date.now()) / DAY_MS));
+  }
+
+  getResourcePath(item: TrashedImage): string {
+    return this.plugin.app.vault.adapter.getResourcePath(item.trashPath);
+  }
+
+  /**
+   * Restore an image to its original path (or next to it if that is taken)
+   * and point the notes that referenced it at the restored file.
+   * Returns the restored path, or null on failure.
+   */
+  async restore(id: string): Promise<string | null> {
+    const item = this.getItem(id);
+    if (!item) return null;
+
+    const { vault } = this.plugin.app;
+    if (!(await vault.adapter.exists(item.trashPath))) {
+      console.error(`Trashed image ${item.originalPath} is missing from ${item.trashPath}`);
+      await this.forget([id]);
+      return null;
+    }
+
+    const restoredPath = this.findAvailablePath(item.originalPath);
+    const folder = restoredPath.substring(0, restoredPath.lastIndexOf('/'));
+    if (folder && !vault.getAbstractFileByPath(folder)) {
+      await vault.createFolder(folder);
+    }
+
+    await vault.createBinary(restoredPath, await vault.adapter.readBinary(item.trashPath));
+    await this.removeTrashedFile(item);
+    await this.forget([id]);
+
+    if (restoredPath !== item.originalPath) {
+      await this.relink(item, restoredPath);
+    }
+
+    return restoredPath;
+  }
+
+  /**
+   * Permanently delete trashed images
+   */
+  async purge(ids: string[]): Promise<number> {
+    let purged = 0;
+    for (const id of ids) {
+      const item = this.getItem(id);
+      if (!item) continue;
+
+      try {
+        await this.removeTrashedFile(item);
+        purged++;
+      } catch (error) {
+        console.error(`Failed to purge trashed image ${item.originalPath}:`, error);
+      }
+    }
+
+    await this.forget(ids);
+    return purged;
+  }
+
+  /**
+   * Purge items older than the retention period
+   */
+  async purgeExpired(): Promise<number> {
+    const expired = this.items.filter((item) => this.getDaysLeft(item) === 0).map((item) => item.id);
+    if (expired.length === 0) return 0;
+    return this.purge(expired);
+  }
+
+  /**
+   * Rewrite links to the original path in the notes that referenced the image
+   */
+  private async relink(item: TrashedImage, restoredPath: string): Promise<void> {
+    for (const notePath of item.referencedBy) {
+      const note = this.plugin.app.vault.getAbstractFileByPath(notePath);
+      if (!(note instanceof TFile)) continue;
+
+      try {
+        if (note.extension === 'canvas') {
+          await this.plugin.linkUpdater.updateLinksInCanvas(note, item.originalPath, restoredPath);
+        } else {
+          await this.plugin.linkUpdater.updateLinksInNote(note, item.originalPath, restoredPath);
+        }
+      } catch (error) {
+        console.error(`Failed to re-link ${restoredPath} in ${notePath}:`, error);
+      }
+    }
+  }
+
+  private async removeTrashedFile(item: TrashedImage): Promise<void> {
+    const { adapter } = this.plugin.app.vault;
+    if (await adapter.exists(item.trashPath)) {
+      await adapter.remove(item.trashPath);
+    }
+
+    const folder = item.trashPath.substring(0, item.trashPath.lastIndexOf('/'));
+    if (await adapter.exists(folder)) {
+      await adapter.rmdir(folder, false);
+    }
+  }
+
+  private async forget(ids: string[]): Promise<void> {
+    this.items = this.items.filter((item) => !ids.includes(item.id));
+    await this.saveTrash();
+  }
+
+  /**
+   * Add a numeric suffix until the path is free
+   */
+  private findAvailablePath(path: string): string {
+    const { vault } = this.plugin.app;
+    const ext = path.includes('.') ? path.substring(path.lastIndexOf('.')) : '';
+    const base = ext ? path.slice(0, -ext.length) : path;
+
+    let counter = 1;
+    let candidate = path;
+    while (vault.getAbstractFileByPath(candidate)) {
+      candidate = `${base}_${counter}${ext}`;
+      counter++;
+    }
+    return candidate;
+  }
+}
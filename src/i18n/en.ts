@@ -10,12 +10,17 @@ export const en = {
   'settings.storageMode.dateBased': 'Date-based (attachments/year/month/)',
   'settings.storageMode.noteFolder': 'Note folder (attachments/{noteName}/)',
   'settings.storageMode.sameAsNote': 'Same as note',
+  'settings.storageMode.template': 'Custom path template',
   'settings.imageFolderSuffix': 'Image folder suffix',
   'settings.imageFolderSuffix.desc': 'Suffix for image folders (e.g., "_img" creates "project_img")',
   'settings.centralFolder': 'Central folder',
   'settings.centralFolder.desc': 'Folder name for storing images',
   'settings.dateFormat': 'Date format',
   'settings.dateFormat.desc': 'Subfolder format using {year}, {month}, {day}',
+  'settings.pathTemplate': 'Path template',
+  'settings.pathTemplate.desc': 'Destination folder. Variables: {noteFolder}, {notePath}, {note}, {folder}, {year}, {month}, {day}, {date}, {frontmatter.key}',
+  'settings.pathTemplate.preview': 'Preview for {note}: {path}',
+  'settings.pathTemplate.noNote': 'Open a note to preview the resolved path',
 
   'settings.filename': 'Filename',
   'settings.filenamePattern': 'Filename pattern',
@@ -26,7 +31,26 @@ export const en = {
   'settings.filenamePattern.hash': 'Content hash',
   'settings.filenamePattern.custom': 'Custom pattern',
   'settings.customPattern': 'Custom pattern',
-  'settings.customPattern.desc': 'Variables: {original}, {timestamp}, {date}, {year}, {month}, {day}, {uuid}, {hash}, {note}, {folder}',
+  'settings.customPattern.desc': 'Variables: {original}, {timestamp}, {date}, {year}, {month}, {day}, {uuid}, {hash}, {note}, {folder}, {counter} ({counter:3} = 007)',
+
+  'settings.storageRules': 'Storage Rules',
+  'settings.storageRules.desc': 'Rules are checked from top to bottom. The first matching rule overrides storage mode, folder, filename pattern and link format for that note. A note can also set imagemaster-folder and imagemaster-pattern in its frontmatter, which take precedence over rules.',
+  'settings.storageRules.add': 'Add rule',
+  'settings.storageRules.rule': 'Rule {index}',
+  'settings.storageRules.enabled': 'Enabled',
+  'settings.storageRules.moveUp': 'Move up',
+  'settings.storageRules.moveDown': 'Move down',
+  'settings.storageRules.remove': 'Remove rule',
+  'settings.storageRules.condition': 'Condition',
+  'settings.storageRules.condition.folder': 'Folder glob',
+  'settings.storageRules.condition.tag': 'Tag',
+  'settings.storageRules.condition.frontmatter': 'Frontmatter',
+  'settings.storageRules.tester': 'Which rule applies?',
+  'settings.storageRules.tester.desc': 'Enter a note path to see which rule is used for it',
+  'settings.storageRules.test': 'Test',
+  'settings.storageRules.matched': 'Rule {index} applies ({condition})',
+  'settings.storageRules.noMatch': 'No rule matches, global settings apply',
+  'settings.storageRules.noteNotFound': 'Note not found: {path}',
 
   'settings.noteIntegration': 'Note Integration',
   'settings.moveImagesWithNote': 'Move images with note',
@@ -43,6 +67,13 @@ export const en = {
   'settings.linkFormat.wikilinkPath': 'Wikilink with path (![[folder/image.png]])',
   'settings.linkFormat.markdownRelative': 'Markdown relative (![](./image.png))',
   'settings.linkFormat.markdownAbsolute': 'Markdown absolute (![](/image.png))',
+  'settings.linkFormat.template': 'Custom template',
+  'settings.linkTemplate': 'Link template',
+  'settings.linkTemplate.desc': 'Variables: {path}, {name}, {relpath}, {alt}, {width}, {note}. e.g. ![[{path}|{width}]], ![{alt}]({relpath}) or <figure><img src="{relpath}" width="{width}"><figcaption>{alt}</figcaption></figure>',
+  'settings.linkWidth': 'Default width',
+  'settings.linkWidth.desc': 'Display width used for {width} in pixels (0 = none)',
+  'settings.linkWidthFromImage': 'Use image width',
+  'settings.linkWidthFromImage.desc': 'Use the image\'s pixel width for {width}, capped at the default width if set',
 
   'settings.duplicateDetection': 'Duplicate Detection',
   'settings.enableDuplicateDetection': 'Enable duplicate detection',
@@ -52,6 +83,12 @@ export const en = {
   'settings.duplicateAction.reuse': 'Reuse existing image',
   'settings.duplicateAction.ask': 'Ask each time',
   'settings.duplicateAction.rename': 'Create with new name',
+  'settings.detectSimilarOnPaste': 'Detect similar images on paste',
+  'settings.detectSimilarOnPaste.desc': 'When no identical image exists, also look for visually similar ones (resized or re-encoded copies) and apply the duplicate action to them',
+  'settings.similarityThreshold': 'Similarity threshold',
+  'settings.similarityThreshold.desc': 'How many of the 64 perceptual-hash bits may differ for two images to count as similar. Lower is stricter.',
+  'settings.hashCacheFolder': 'Hash cache folder',
+  'settings.hashCacheFolder.desc': 'Where image hashes are cached. Leave empty to use the plugin folder. The existing cache is moved when the folder changes.',
 
   'settings.orphanImages': 'Orphan Images',
   'settings.autoDetectOrphans': 'Auto-detect orphans',
@@ -63,6 +100,18 @@ export const en = {
   'settings.orphanHandling.keep': 'Keep in place',
   'settings.orphanFolder': 'Orphan folder',
   'settings.orphanFolder.desc': 'Folder to move orphan images',
+  'settings.orphanGraceDays': 'Grace period (days)',
+  'settings.orphanGraceDays.desc': 'Only move images that have been orphaned for at least this many days, so content cut and pasted between notes stays in place',
+  'settings.orphanExcludeFolders': 'Protected folders',
+  'settings.orphanExcludeFolders.desc': 'One folder or glob per line. Images in these folders, or used only by notes in them (e.g. Templates), are never moved or deleted as orphans',
+  'settings.orphanExcludePatterns': 'Protected file names',
+  'settings.orphanExcludePatterns.desc': 'One file name glob per line, e.g. wallpaper-*. Images can also be kept with a "<image>.keep" file or a "<image>.md" note with imagemaster-keep: true',
+  'settings.deleteMode': 'Deleted images',
+  'settings.deleteMode.desc': 'Where images deleted by ImageMaster go',
+  'settings.deleteMode.imageMasterTrash': 'ImageMaster trash (restorable from the gallery)',
+  'settings.deleteMode.obsidianTrash': 'Follow Obsidian\'s "Deleted files" setting',
+  'settings.trashRetentionDays': 'Keep trashed images for (days)',
+  'settings.trashRetentionDays.desc': 'Permanently delete trashed images after this many days (0 = keep forever)',
 
   'settings.galleryUI': 'Gallery UI',
   'settings.galleryColumns': 'Gallery columns',
@@ -78,6 +127,11 @@ export const en = {
   // Commands
   'command.openGallery': 'Open Image Gallery',
   'command.scanOrphans': 'Scan for Orphan Images',
+  'command.convertLinkFormat': 'Convert Image Link Format',
+  'command.findBrokenLinks': 'Find Broken Image Links',
+  'command.undoLast': 'Undo Last ImageMaster Operation',
+  'command.showHistory': 'Show ImageMaster Operation History',
+  'command.cancelIndexing': 'Cancel Image Hash Indexing',
 
   // Notices
   'notice.foundOrphans': 'Found {count} orphan image(s)',
@@ -85,8 +139,23 @@ export const en = {
   'notice.reusingDuplicate': 'Reusing existing duplicate image',
   'notice.imageSaved': 'Image saved: {name}',
   'notice.failedToSave': 'Failed to save image',
+  'notice.pasteSummary': 'Processed {count} images: {saved} saved, {reused} reused, {skipped} skipped, {failed} failed',
+  'notice.attachmentsFailed': 'Failed to save {count} non-image attachment(s)',
+  'notice.linksConverted': 'Converted image links in {count} note(s)',
+  'notice.brokenLinksFixed': 'Fixed {count} broken image link(s)',
+  'notice.brokenLinksRemoved': 'Removed {count} broken image link(s)',
+  'notice.brokenLinksCommented': 'Commented out {count} broken image link(s)',
+  'notice.undone': 'Undone "{title}": {reverted} change(s) reverted, {failed} failed',
+  'notice.nothingToUndo': 'No ImageMaster operation to undo',
   'notice.inserted': 'Inserted: {name}',
   'notice.deleted': 'Deleted {count} image(s)',
+  'notice.restored': 'Restored {count} image(s)',
+  'notice.purged': 'Permanently deleted {count} image(s)',
+  'notice.merged': 'Merged duplicates: removed {count} redundant copy(ies)',
+  'notice.indexingCancelled': 'Image hashing cancelled ({done}/{total} done)',
+  'notice.notIndexing': 'No image hashing in progress',
+  'notice.invalidHashCacheFolder': 'Invalid hash cache folder: {folder}',
+  'notice.hashCacheMoveFailed': 'Could not move the hash cache to {folder}',
   'notice.failedToDelete': 'Failed to delete some images',
   'notice.moved': 'Moved {count} image(s) to {folder}',
   'notice.failedToMove': 'Failed to move some images',
@@ -110,13 +179,17 @@ export const en = {
   'filter.all': 'All',
   'filter.inUse': 'In Use',
   'filter.orphan': 'Orphan',
+  'filter.duplicates': 'Duplicates',
+  'filter.trash': 'Trash',
+  'filter.protected': '{count} protected',
+  'filter.protectedTooltip': '{count} orphan image(s) are protected by exclusion rules and cannot be deleted',
 
   // Action toolbar
   'action.selected': '{count} selected',
   'action.orphanCount': '{orphan} orphan, {inUse} in use',
   'action.delete': 'Delete',
   'action.deleteCount': 'Delete ({count})',
-  'action.deleteOrphanOnly': 'Only orphan images can be deleted',
+  'action.deleteOrphanOnly': 'Only unprotected orphan images can be deleted',
   'action.deleteOrphanTitle': 'Delete {count} orphan image(s)',
   'action.moveTo': 'Move to...',
   'action.moveTitle': 'Move selected images to folder',
@@ -141,6 +214,9 @@ export const en = {
   // Image grid
   'image.orphan': 'Orphan',
   'image.orphanTooltip': 'This image is not referenced by any note',
+  'image.orphanedFor': 'Not referenced by any note for {count} day(s)',
+  'image.protected': 'Protected',
+  'image.protectedTooltip': 'Unreferenced, but kept by an exclusion rule or keep marker',
   'image.selectAria': 'Select image {name}',
 
   // Image list
@@ -164,8 +240,11 @@ export const en = {
   'info.modified': 'Modified',
   'info.status': 'Status',
   'info.orphan': 'Orphan',
+  'info.orphanFor': 'Orphan for {count} day(s)',
+  'info.protection': 'Protection',
   'info.inUse': 'In Use',
   'info.referencedBy': 'Referenced by ({count})',
+  'info.viaProperty': '({property})',
   'info.copyLink': 'Copy Link',
   'info.copyPath': 'Copy Path',
   'info.rename': 'Rename',
@@ -177,9 +256,135 @@ export const en = {
   'confirm.deleteOne': 'Delete "{name}"?',
   'confirm.deleteMany': 'Delete {count} orphan images?',
   'confirm.deleteSingle': 'Are you sure you want to delete this image?',
+  'confirm.removeBrokenLinks': 'Change {count} broken image links in your notes?',
+  'confirm.purge': 'Permanently delete {count} trashed image(s)? This cannot be undone.',
+  'confirm.mergeDuplicates': 'Point all references at the kept images and move {count} redundant copy(ies) to the trash?',
+
+  // Duplicate compare modal
+  'duplicate.title': 'Duplicate image detected',
+  'duplicate.desc': 'An identical image already exists in your vault.',
+  'duplicate.similarTitle': 'Similar image detected',
+  'duplicate.similarDesc': 'A visually similar image already exists in your vault (distance {distance}).',
+  'duplicate.incoming': 'Pasted image',
+  'duplicate.existing': 'Existing image',
+  'duplicate.noReferences': 'Not referenced by any note',
+  'duplicate.remember': 'Remember for this session',
+  'duplicate.reuse': 'Reuse existing',
+  'duplicate.saveCopy': 'Save as new copy',
+  'duplicate.cancel': 'Cancel',
+
+  // Link format conversion modal
+  'convert.title': 'Convert image link format',
+  'convert.scope': 'Scope',
+  'convert.scope.note': 'Current note',
+  'convert.scope.folder': 'Folder',
+  'convert.scope.vault': 'Whole vault',
+  'convert.folder': 'Folder',
+  'convert.chooseFolder': 'Choose folder',
+  'convert.format': 'Target format',
+  'convert.preview': 'Preview',
+  'convert.apply': 'Apply',
+  'convert.summary': '{links} link(s) will be rewritten in {notes} note(s). {unresolved} unresolved embed(s) will be left as is.',
+  'convert.more': '…and {count} more',
+
+  // Broken links view
+  'broken.title': 'Broken Image Links',
+  'broken.rescan': 'Rescan',
+  'broken.scanning': 'Scanning notes...',
+  'broken.empty': 'No broken image links found',
+  'broken.summary': '{count} broken link(s), {fixable} with a suggested fix',
+  'broken.fixAll': 'Fix {count} with selected match',
+  'broken.commentUnfixable': 'Comment out {count} without match',
+  'broken.reason.hash': 'same content',
+  'broken.reason.name': 'same name',
+  'broken.reason.similar': 'similar name',
+  'broken.noCandidate': 'Don\'t fix',
+  'broken.noCandidates': 'No matching image found',
+  'broken.fix': 'Fix',
+  'broken.comment': 'Comment out',
+  'broken.remove': 'Remove',
 
   // Folder suggest modal
   'modal.selectFolder': 'Select a folder to move images to...',
+
+  // Operation plan review
+  'plan.title.bulkMove': 'Move {count} image(s) to {folder}',
+  'plan.title.orphanMove': 'Move {count} orphan image(s) to {folder}',
+  'plan.title.noteMove': 'Move images of "{note}"',
+  'plan.title.noteMoves': 'Move images of {count} moved notes',
+  'plan.summary': '{moves} file move(s), {folders} folder(s) to create, {rewrites} note rewrite(s), {deletes} folder(s) to delete',
+  'plan.conflicts': '{count} step(s) have conflicts and will be skipped',
+  'plan.result': '{applied} applied, {skipped} skipped, {failed} failed',
+  'plan.run': 'Run',
+  'plan.running': 'Running...',
+  'plan.cancel': 'Cancel',
+  'plan.close': 'Close',
+  'plan.step.createFolder': 'Create folder {path}',
+  'plan.step.rename': 'Move {path} → {newPath}',
+  'plan.step.rewriteNote': 'Update links in {path} → {image}',
+  'plan.step.delete': 'Delete empty folder {path}',
+  'plan.status.applied': 'Applied',
+  'plan.status.skipped': 'Skipped',
+  'plan.status.failed': 'Failed',
+  'plan.status.exists': 'Already exists',
+  'plan.status.moveNotApplied': 'Image was not moved',
+  'plan.status.upToDate': 'Links already up to date',
+  'plan.status.notEmpty': 'Folder is not empty',
+  'plan.conflict.exists': 'Target already exists',
+  'plan.conflict.duplicate': 'Another file is moved to the same target',
+  'plan.conflict.missing': 'File no longer exists',
+
+  // Operation journal
+  'journal.title.batchUpdate': 'Update references of {count} image(s)',
+  'journal.title.convertLinks': 'Convert image link format',
+  'journal.title.deleteOrphans': 'Delete {count} orphan image(s)',
+  'journal.title.repairLinks': 'Repair {count} broken image link(s)',
+  'journal.title.imageRenamed': 'Rename {from} to {to}',
+  'journal.title.mergeDuplicates': 'Merge {count} duplicate(s) into {keeper}',
+
+  // Operation history
+  'history.title': 'Operation history',
+  'history.empty': 'No operations recorded yet',
+  'history.actions': '{count} change(s)',
+  'history.undo': 'Undo',
+  'history.undone': 'Undone',
+
+  // Trash
+  'trash.empty': 'Trash is empty',
+  'trash.count': '{count} trashed image(s)',
+  'trash.restore': 'Restore',
+  'trash.restoreCount': 'Restore ({count})',
+  'trash.purge': 'Delete permanently',
+  'trash.purgeCount': 'Delete permanently ({count})',
+  'trash.emptyTrash': 'Empty trash',
+  'trash.deletedAt': 'Deleted {date}',
+  'trash.referencedBy': 'Was used in {count} note(s)',
+  'trash.daysLeft': 'Purged in {count} day(s)',
+
+  // Duplicates
+  'duplicates.scanning': 'Looking for duplicate images...',
+  'duplicates.empty': 'No duplicate images found',
+  'duplicates.count': '{count} duplicate group(s)',
+  'duplicates.summary': '{groups} group(s), {count} redundant copy(ies)',
+  'duplicates.keeperRule': 'Keep',
+  'duplicates.rule.shortestPath': 'Shortest path',
+  'duplicates.rule.storageLocation': 'In storage location',
+  'duplicates.rule.mostReferenced': 'Most referenced',
+  'duplicates.mergeAll': 'Merge all ({count})',
+  'duplicates.merge': 'Merge',
+  'duplicates.groupTitle': '{count} identical images',
+  'duplicates.keep': 'Keep',
+  'duplicates.remove': 'Remove',
+  'duplicates.unused': 'Not used in any note',
+  'duplicates.mode.exact': 'Identical',
+  'duplicates.mode.similar': 'Similar',
+  'duplicates.threshold': 'Max distance: {distance}',
+  'duplicates.similarGroupTitle': '{count} similar images',
+  'duplicates.tooDifferent': 'Some images in this group are not similar enough to this one to be merged into it',
+
+  // Indexer
+  'indexer.progress': 'Hashing images {done}/{total}',
+  'indexer.cancelTooltip': 'Click to cancel image hashing',
 } as const;
 
 export type TranslationKey = keyof typeof en;
@@ -12,12 +12,17 @@ export const ko: Record<TranslationKey, string> = {
   'settings.storageMode.dateBased': '날짜 기반 (attachments/year/month/)',
   'settings.storageMode.noteFolder': '노트 폴더 (attachments/{noteName}/)',
   'settings.storageMode.sameAsNote': '노트와 같은 폴더',
+  'settings.storageMode.template': '사용자 정의 경로 템플릿',
   'settings.imageFolderSuffix': '이미지 폴더 접미사',
   'settings.imageFolderSuffix.desc': '이미지 폴더의 접미사 (예: "_img"는 "project_img"를 생성)',
   'settings.centralFolder': '중앙 폴더',
   'settings.centralFolder.desc': '이미지를 저장할 폴더 이름',
   'settings.dateFormat': '날짜 형식',
   'settings.dateFormat.desc': '{year}, {month}, {day}를 사용한 하위 폴더 형식',
+  'settings.pathTemplate': '경로 템플릿',
+  'settings.pathTemplate.desc': '저장 폴더. 변수: {noteFolder}, {notePath}, {note}, {folder}, {year}, {month}, {day}, {date}, {frontmatter.key}',
+  'settings.pathTemplate.preview': '{note} 미리보기: {path}',
+  'settings.pathTemplate.noNote': '경로를 미리 보려면 노트를 여세요',
 
   'settings.filename': '파일명',
   'settings.filenamePattern': '파일명 패턴',
@@ -28,7 +33,26 @@ export const ko: Record<TranslationKey, string> = {
   'settings.filenamePattern.hash': '콘텐츠 해시',
   'settings.filenamePattern.custom': '사용자 정의 패턴',
   'settings.customPattern': '사용자 정의 패턴',
-  'settings.customPattern.desc': '변수: {original}, {timestamp}, {date}, {year}, {month}, {day}, {uuid}, {hash}, {note}, {folder}',
+  'settings.customPattern.desc': '변수: {original}, {timestamp}, {date}, {year}, {month}, {day}, {uuid}, {hash}, {note}, {folder}, {counter} ({counter:3} = 007)',
+
+  'settings.storageRules': '저장 규칙',
+  'settings.storageRules.desc': '규칙은 위에서 아래로 확인됩니다. 처음 일치하는 규칙이 해당 노트의 저장 방식, 폴더, 파일명 패턴, 링크 형식을 대신합니다. 노트 프론트매터의 imagemaster-folder, imagemaster-pattern 값은 규칙보다 우선합니다.',
+  'settings.storageRules.add': '규칙 추가',
+  'settings.storageRules.rule': '규칙 {index}',
+  'settings.storageRules.enabled': '사용',
+  'settings.storageRules.moveUp': '위로 이동',
+  'settings.storageRules.moveDown': '아래로 이동',
+  'settings.storageRules.remove': '규칙 삭제',
+  'settings.storageRules.condition': '조건',
+  'settings.storageRules.condition.folder': '폴더 글롭',
+  'settings.storageRules.condition.tag': '태그',
+  'settings.storageRules.condition.frontmatter': '프론트매터',
+  'settings.storageRules.tester': '어떤 규칙이 적용되나요?',
+  'settings.storageRules.tester.desc': '노트 경로를 입력하면 적용되는 규칙을 보여줍니다',
+  'settings.storageRules.test': '테스트',
+  'settings.storageRules.matched': '규칙 {index} 적용 ({condition})',
+  'settings.storageRules.noMatch': '일치하는 규칙 없음, 전역 설정 적용',
+  'settings.storageRules.noteNotFound': '노트를 찾을 수 없음: {path}',
 
   'settings.noteIntegration': '노트 연동',
   'settings.moveImagesWithNote': '노트와 함께 이미지 이동',
@@ -45,6 +69,13 @@ export const ko: Record<TranslationKey, string> = {
   'settings.linkFormat.wikilinkPath': '경로 포함 위키링크 (![[folder/image.png]])',
   'settings.linkFormat.markdownRelative': '마크다운 상대 경로 (![](./image.png))',
   'settings.linkFormat.markdownAbsolute': '마크다운 절대 경로 (![](/image.png))',
+  'settings.linkFormat.template': '사용자 정의 템플릿',
+  'settings.linkTemplate': '링크 템플릿',
+  'settings.linkTemplate.desc': '변수: {path}, {name}, {relpath}, {alt}, {width}, {note}. 예: ![[{path}|{width}]], ![{alt}]({relpath}) 또는 <figure><img src="{relpath}" width="{width}"><figcaption>{alt}</figcaption></figure>',
+  'settings.linkWidth': '기본 너비',
+  'settings.linkWidth.desc': '{width}에 사용할 표시 너비(픽셀, 0 = 없음)',
+  'settings.linkWidthFromImage': '이미지 너비 사용',
+  'settings.linkWidthFromImage.desc': '{width}에 이미지의 픽셀 너비를 사용합니다 (기본 너비가 있으면 그 값을 넘지 않음)',
 
   'settings.duplicateDetection': '중복 감지',
   'settings.enableDuplicateDetection': '중복 감지 활성화',
@@ -54,6 +85,12 @@ export const ko: Record<TranslationKey, string> = {
   'settings.duplicateAction.reuse': '기존 이미지 재사용',
   'settings.duplicateAction.ask': '매번 확인',
   'settings.duplicateAction.rename': '새 이름으로 생성',
+  'settings.detectSimilarOnPaste': '붙여넣을 때 유사 이미지 감지',
+  'settings.detectSimilarOnPaste.desc': '동일한 이미지가 없으면 시각적으로 비슷한 이미지(크기 변경·재인코딩된 사본)도 찾아 중복 처리 방식을 적용합니다',
+  'settings.similarityThreshold': '유사도 임계값',
+  'settings.similarityThreshold.desc': '두 이미지를 유사하다고 판단할 때 허용하는 지각 해시 64비트 중 다른 비트 수입니다. 낮을수록 엄격합니다.',
+  'settings.hashCacheFolder': '해시 캐시 폴더',
+  'settings.hashCacheFolder.desc': '이미지 해시를 캐시할 위치입니다. 비워 두면 플러그인 폴더를 사용합니다. 폴더를 바꾸면 기존 캐시가 옮겨집니다.',
 
   'settings.orphanImages': '고아 이미지',
   'settings.autoDetectOrphans': '고아 이미지 자동 감지',
@@ -65,6 +102,18 @@ export const ko: Record<TranslationKey, string> = {
   'settings.orphanHandling.keep': '현재 위치 유지',
   'settings.orphanFolder': '고아 이미지 폴더',
   'settings.orphanFolder.desc': '고아 이미지를 이동할 폴더',
+  'settings.orphanGraceDays': '유예 기간 (일)',
+  'settings.orphanGraceDays.desc': '이 기간 이상 고아 상태인 이미지만 이동하여, 노트 간에 잘라내어 붙여넣은 내용이 그대로 유지되도록 합니다',
+  'settings.orphanExcludeFolders': '보호 폴더',
+  'settings.orphanExcludeFolders.desc': '한 줄에 폴더 또는 glob 하나. 이 폴더의 이미지나 이 폴더의 노트(예: Templates)에서만 사용되는 이미지는 고아로 이동되거나 삭제되지 않습니다',
+  'settings.orphanExcludePatterns': '보호 파일 이름',
+  'settings.orphanExcludePatterns.desc': '한 줄에 파일 이름 glob 하나 (예: wallpaper-*). "<이미지>.keep" 파일이나 imagemaster-keep: true가 있는 "<이미지>.md" 노트로도 보호할 수 있습니다',
+  'settings.deleteMode': '삭제된 이미지',
+  'settings.deleteMode.desc': 'ImageMaster가 삭제한 이미지의 보관 위치',
+  'settings.deleteMode.imageMasterTrash': 'ImageMaster 휴지통 (갤러리에서 복원 가능)',
+  'settings.deleteMode.obsidianTrash': 'Obsidian의 "삭제된 파일" 설정 따르기',
+  'settings.trashRetentionDays': '휴지통 보관 기간 (일)',
+  'settings.trashRetentionDays.desc': '이 기간이 지난 이미지는 영구 삭제됩니다 (0 = 계속 보관)',
 
   'settings.galleryUI': '갤러리 UI',
   'settings.galleryColumns': '갤러리 열 수',
@@ -80,6 +129,11 @@ export const ko: Record<TranslationKey, string> = {
   // Commands
   'command.openGallery': '이미지 갤러리 열기',
   'command.scanOrphans': '고아 이미지 스캔',
+  'command.convertLinkFormat': '이미지 링크 형식 변환',
+  'command.findBrokenLinks': '깨진 이미지 링크 찾기',
+  'command.undoLast': '마지막 ImageMaster 작업 실행 취소',
+  'command.showHistory': 'ImageMaster 작업 기록 보기',
+  'command.cancelIndexing': '이미지 해시 색인 취소',
 
   // Notices
   'notice.foundOrphans': '고아 이미지 {count}개 발견',
@@ -87,8 +141,23 @@ export const ko: Record<TranslationKey, string> = {
   'notice.reusingDuplicate': '기존 중복 이미지를 재사용합니다',
   'notice.imageSaved': '이미지 저장됨: {name}',
   'notice.failedToSave': '이미지 저장 실패',
+  'notice.pasteSummary': '이미지 {count}개 처리: 저장 {saved}, 재사용 {reused}, 건너뜀 {skipped}, 실패 {failed}',
+  'notice.attachmentsFailed': '이미지가 아닌 첨부 파일 {count}개 저장 실패',
+  'notice.linksConverted': '노트 {count}개의 이미지 링크를 변환했습니다',
+  'notice.brokenLinksFixed': '깨진 이미지 링크 {count}개를 수정했습니다',
+  'notice.brokenLinksRemoved': '깨진 이미지 링크 {count}개를 제거했습니다',
+  'notice.brokenLinksCommented': '깨진 이미지 링크 {count}개를 주석 처리했습니다',
+  'notice.undone': '"{title}" 실행 취소: {reverted}개 변경 되돌림, {failed}개 실패',
+  'notice.nothingToUndo': '실행 취소할 ImageMaster 작업이 없습니다',
   'notice.inserted': '삽입됨: {name}',
   'notice.deleted': '{count}개 이미지 삭제됨',
+  'notice.restored': '{count}개 이미지 복원됨',
+  'notice.purged': '{count}개 이미지 영구 삭제됨',
+  'notice.merged': '중복 병합: 불필요한 사본 {count}개 제거됨',
+  'notice.indexingCancelled': '이미지 해시 계산 취소됨 ({done}/{total} 완료)',
+  'notice.notIndexing': '진행 중인 이미지 해시 계산이 없습니다',
+  'notice.invalidHashCacheFolder': '잘못된 해시 캐시 폴더: {folder}',
+  'notice.hashCacheMoveFailed': '해시 캐시를 {folder}(으)로 옮기지 못했습니다',
   'notice.failedToDelete': '일부 이미지 삭제 실패',
   'notice.moved': '{count}개 이미지를 {folder}로 이동',
   'notice.failedToMove': '일부 이미지 이동 실패',
@@ -112,13 +181,17 @@ export const ko: Record<TranslationKey, string> = {
   'filter.all': '전체',
   'filter.inUse': '사용 중',
   'filter.orphan': '고아',
+  'filter.duplicates': '중복',
+  'filter.trash': '휴지통',
+  'filter.protected': '보호 {count}',
+  'filter.protectedTooltip': '고아 이미지 {count}개가 제외 규칙으로 보호되어 삭제할 수 없습니다',
 
   // Action toolbar
   'action.selected': '{count}개 선택됨',
   'action.orphanCount': '고아 {orphan}개, 사용 중 {inUse}개',
   'action.delete': '삭제',
   'action.deleteCount': '삭제 ({count})',
-  'action.deleteOrphanOnly': '고아 이미지만 삭제할 수 있습니다',
+  'action.deleteOrphanOnly': '보호되지 않은 고아 이미지만 삭제할 수 있습니다',
   'action.deleteOrphanTitle': '고아 이미지 {count}개 삭제',
   'action.moveTo': '이동...',
   'action.moveTitle': '선택한 이미지를 폴더로 이동',
@@ -143,6 +216,9 @@ export const ko: Record<TranslationKey, string> = {
   // Image grid
   'image.orphan': '고아',
   'image.orphanTooltip': '이 이미지는 어떤 노트에서도 참조되지 않습니다',
+  'image.orphanedFor': '{count}일째 어떤 노트에서도 참조되지 않음',
+  'image.protected': '보호됨',
+  'image.protectedTooltip': '참조되지 않지만 제외 규칙이나 보존 표시로 유지됨',
   'image.selectAria': '이미지 선택: {name}',
 
   // Image list
@@ -166,8 +242,11 @@ export const ko: Record<TranslationKey, string> = {
   'info.modified': '수정일',
   'info.status': '상태',
   'info.orphan': '고아',
+  'info.orphanFor': '{count}일째 고아',
+  'info.protection': '보호',
   'info.inUse': '사용 중',
   'info.referencedBy': '참조하는 노트 ({count})',
+  'info.viaProperty': '({property} 속성)',
   'info.copyLink': '링크 복사',
   'info.copyPath': '경로 복사',
   'info.rename': '이름 변경',
@@ -179,7 +258,133 @@ export const ko: Record<TranslationKey, string> = {
   'confirm.deleteOne': '"{name}"을(를) 삭제하시겠습니까?',
   'confirm.deleteMany': '고아 이미지 {count}개를 삭제하시겠습니까?',
   'confirm.deleteSingle': '이 이미지를 삭제하시겠습니까?',
+  'confirm.removeBrokenLinks': '노트의 깨진 이미지 링크 {count}개를 변경하시겠습니까?',
+  'confirm.purge': '휴지통의 이미지 {count}개를 영구 삭제하시겠습니까? 되돌릴 수 없습니다.',
+  'confirm.mergeDuplicates': '모든 참조를 유지할 이미지로 바꾸고 불필요한 사본 {count}개를 휴지통으로 옮기시겠습니까?',
+
+  // Duplicate compare modal
+  'duplicate.title': '중복 이미지 감지',
+  'duplicate.desc': '동일한 이미지가 이미 보관함에 있습니다.',
+  'duplicate.similarTitle': '유사 이미지 감지',
+  'duplicate.similarDesc': '시각적으로 비슷한 이미지가 이미 보관함에 있습니다 (거리 {distance}).',
+  'duplicate.incoming': '붙여넣은 이미지',
+  'duplicate.existing': '기존 이미지',
+  'duplicate.noReferences': '참조하는 노트 없음',
+  'duplicate.remember': '이번 세션 동안 기억',
+  'duplicate.reuse': '기존 이미지 재사용',
+  'duplicate.saveCopy': '새 사본으로 저장',
+  'duplicate.cancel': '취소',
+
+  // Link format conversion modal
+  'convert.title': '이미지 링크 형식 변환',
+  'convert.scope': '범위',
+  'convert.scope.note': '현재 노트',
+  'convert.scope.folder': '폴더',
+  'convert.scope.vault': '전체 보관함',
+  'convert.folder': '폴더',
+  'convert.chooseFolder': '폴더 선택',
+  'convert.format': '변환할 형식',
+  'convert.preview': '미리보기',
+  'convert.apply': '적용',
+  'convert.summary': '노트 {notes}개에서 링크 {links}개가 변경됩니다. 확인할 수 없는 임베드 {unresolved}개는 그대로 둡니다.',
+  'convert.more': '…외 {count}개',
+
+  // Broken links view
+  'broken.title': '깨진 이미지 링크',
+  'broken.rescan': '다시 검사',
+  'broken.scanning': '노트 검사 중...',
+  'broken.empty': '깨진 이미지 링크가 없습니다',
+  'broken.summary': '깨진 링크 {count}개, 수정 제안 {fixable}개',
+  'broken.fixAll': '선택한 이미지로 {count}개 수정',
+  'broken.commentUnfixable': '일치 항목 없는 {count}개 주석 처리',
+  'broken.reason.hash': '같은 내용',
+  'broken.reason.name': '같은 이름',
+  'broken.reason.similar': '비슷한 이름',
+  'broken.noCandidate': '수정하지 않음',
+  'broken.noCandidates': '일치하는 이미지 없음',
+  'broken.fix': '수정',
+  'broken.comment': '주석 처리',
+  'broken.remove': '제거',
 
   // Folder suggest modal
   'modal.selectFolder': '이미지를 이동할 폴더를 선택하세요...',
+
+  // Operation plan review
+  'plan.title.bulkMove': '이미지 {count}개를 {folder}(으)로 이동',
+  'plan.title.orphanMove': '고아 이미지 {count}개를 {folder}(으)로 이동',
+  'plan.title.noteMove': '"{note}" 노트의 이미지 이동',
+  'plan.title.noteMoves': '이동된 노트 {count}개의 이미지 이동',
+  'plan.summary': '파일 이동 {moves}개, 폴더 생성 {folders}개, 노트 수정 {rewrites}개, 폴더 삭제 {deletes}개',
+  'plan.conflicts': '충돌이 있는 {count}개 단계는 건너뜁니다',
+  'plan.result': '적용 {applied}개, 건너뜀 {skipped}개, 실패 {failed}개',
+  'plan.run': '실행',
+  'plan.running': '실행 중...',
+  'plan.cancel': '취소',
+  'plan.close': '닫기',
+  'plan.step.createFolder': '폴더 생성 {path}',
+  'plan.step.rename': '이동 {path} → {newPath}',
+  'plan.step.rewriteNote': '{path}의 링크 수정 → {image}',
+  'plan.step.delete': '빈 폴더 삭제 {path}',
+  'plan.status.applied': '적용됨',
+  'plan.status.skipped': '건너뜀',
+  'plan.status.failed': '실패',
+  'plan.status.exists': '이미 존재함',
+  'plan.status.moveNotApplied': '이미지가 이동되지 않음',
+  'plan.status.upToDate': '링크가 이미 최신 상태',
+  'plan.status.notEmpty': '폴더가 비어 있지 않음',
+  'plan.conflict.exists': '대상이 이미 존재함',
+  'plan.conflict.duplicate': '다른 파일이 같은 대상으로 이동됨',
+  'plan.conflict.missing': '파일이 더 이상 존재하지 않음',
+
+  // Operation journal
+  'journal.title.batchUpdate': '이미지 {count}개의 참조 업데이트',
+  'journal.title.convertLinks': '이미지 링크 형식 변환',
+  'journal.title.deleteOrphans': '고아 이미지 {count}개 삭제',
+  'journal.title.repairLinks': '깨진 이미지 링크 {count}개 복구',
+  'journal.title.imageRenamed': '{from} 이름을 {to}(으)로 변경',
+  'journal.title.mergeDuplicates': '중복 {count}개를 {keeper}(으)로 병합',
+
+  // Operation history
+  'history.title': '작업 기록',
+  'history.empty': '기록된 작업이 없습니다',
+  'history.actions': '변경 {count}개',
+  'history.undo': '실행 취소',
+  'history.undone': '취소됨',
+
+  // Trash
+  'trash.empty': '휴지통이 비어 있습니다',
+  'trash.count': '휴지통 이미지 {count}개',
+  'trash.restore': '복원',
+  'trash.restoreCount': '복원 ({count})',
+  'trash.purge': '영구 삭제',
+  'trash.purgeCount': '영구 삭제 ({count})',
+  'trash.emptyTrash': '휴지통 비우기',
+  'trash.deletedAt': '{date} 삭제됨',
+  'trash.referencedBy': '노트 {count}개에서 사용됨',
+  'trash.daysLeft': '{count}일 후 영구 삭제',
+
+  // Duplicates
+  'duplicates.scanning': '중복 이미지를 찾는 중...',
+  'duplicates.empty': '중복 이미지가 없습니다',
+  'duplicates.count': '중복 그룹 {count}개',
+  'duplicates.summary': '그룹 {groups}개, 불필요한 사본 {count}개',
+  'duplicates.keeperRule': '유지',
+  'duplicates.rule.shortestPath': '가장 짧은 경로',
+  'duplicates.rule.storageLocation': '저장 위치에 있는 것',
+  'duplicates.rule.mostReferenced': '가장 많이 참조된 것',
+  'duplicates.mergeAll': '모두 병합 ({count})',
+  'duplicates.merge': '병합',
+  'duplicates.groupTitle': '동일한 이미지 {count}개',
+  'duplicates.keep': '유지',
+  'duplicates.remove': '제거',
+  'duplicates.unused': '어떤 노트에서도 사용되지 않음',
+  'duplicates.mode.exact': '동일',
+  'duplicates.mode.similar': '유사',
+  'duplicates.threshold': '최대 거리: {distance}',
+  'duplicates.similarGroupTitle': '유사한 이미지 {count}개',
+  'duplicates.tooDifferent': '이 그룹의 일부 이미지가 이 이미지와 충분히 비슷하지 않아 이 이미지로 병합할 수 없습니다',
+
+  // Indexer
+  'indexer.progress': '이미지 해시 계산 중 {done}/{total}',
+  'indexer.cancelTooltip': '클릭하여 이미지 해시 계산 취소',
 };
@@ -4,22 +4,48 @@ import {
   TAbstractFile,
   Notice,
   WorkspaceLeaf,
+  Editor,
+  EditorPosition,
 } from 'obsidian';
-import { ImageMasterSettings, DEFAULT_SETTINGS, isImageFile } from './types';
+import { ImageMasterSettings, DEFAULT_SETTINGS, GALLERY_IMAGE_DRAG_TYPE, isImageFile } from './types';
 import { ImageMasterSettingTab } from './settings';
 import { FileManager } from './core/FileManager';
 import { HashService } from './core/HashService';
+import { HashIndexer } from './core/HashIndexer';
 import { LinkUpdater } from './core/LinkUpdater';
 import { OrphanDetector } from './core/OrphanDetector';
+import { ReferenceIndex } from './core/ReferenceIndex';
+import { BrokenLinkDetector } from './core/BrokenLinkDetector';
+import { OperationPlanner } from './core/OperationPlanner';
+import { OperationJournal } from './core/OperationJournal';
+import { TrashService } from './core/TrashService';
+import { DuplicateManager } from './core/DuplicateManager';
 import { GALLERY_VIEW_TYPE, GalleryView } from './ui/GalleryView';
+import { BROKEN_LINKS_VIEW_TYPE, BrokenLinksView } from './ui/BrokenLinksView';
+import { askDuplicateAction } from './ui/modals/DuplicateCompareModal';
+import { LinkConvertModal } from './ui/modals/LinkConvertModal';
+import { JournalHistoryModal } from './ui/modals/JournalHistoryModal';
 import { setLanguage, t } from './i18n';
 
+// How often orphans are re-checked, so grace periods expire without a manual scan
+const ORPHAN_RECHECK_INTERVAL_MS = 60 * 60 * 1000;
+
 export default class ImageMasterPlugin extends Plugin {
   settings: ImageMasterSettings;
   fileManager: FileManager;
   hashService: HashService;
+  hashIndexer: HashIndexer;
   linkUpdater: LinkUpdater;
   orphanDetector: OrphanDetector;
+  referenceIndex: ReferenceIndex;
+  brokenLinkDetector: BrokenLinkDetector;
+  operationPlanner: OperationPlanner;
+  journal: OperationJournal;
+  trashService: TrashService;
+  duplicateManager: DuplicateManager;
+
+  // Duplicate choice remembered from the "Ask each time" dialog until reload
+  private sessionDuplicateAction: 'reuse' | 'rename' | null = null;
 
   async onload() {
 
@@ -31,9 +57,16 @@ export default class ImageMasterPlugin extends Plugin {
 
     // Initialize core services
     this.hashService = new HashService(this);
+    this.hashIndexer = new HashIndexer(this);
     this.fileManager = new FileManager(this);
     this.linkUpdater = new LinkUpdater(this);
     this.orphanDetector = new OrphanDetector(this);
+    this.referenceIndex = new ReferenceIndex(this);
+    this.brokenLinkDetector = new BrokenLinkDetector(this);
+    this.operationPlanner = new OperationPlanner(this);
+    this.journal = new OperationJournal(this);
+    this.trashService = new TrashService(this);
+    this.duplicateManager = new DuplicateManager(this);
 
     // Register gallery view
     this.registerView(
@@ -41,6 +74,11 @@ export default class ImageMasterPlugin extends Plugin {
       (leaf) => new GalleryView(leaf, this)
     );
 
+    this.registerView(
+      BROKEN_LINKS_VIEW_TYPE,
+      (leaf) => new BrokenLinksView(leaf, this)
+    );
+
     // Add ribbon icon for gallery
     this.addRibbonIcon('image', t('command.openGallery'), () => {
       this.activateGalleryView();
@@ -68,23 +106,109 @@ export default class ImageMasterPlugin extends Plugin {
       id: 'scan-orphan-images',
       name: t('command.scanOrphans'),
       callback: async () => {
-        const orphans = await this.orphanDetector.scanOrphanImages();
+        const orphans = await this.orphanDetector.scanOrphanImages(true);
         new Notice(t('notice.foundOrphans', { count: orphans.length }));
       },
     });
 
+    this.addCommand({
+      id: 'convert-image-link-format',
+      name: t('command.convertLinkFormat'),
+      callback: () => {
+        new LinkConvertModal(this.app, this).open();
+      },
+    });
+
+    this.addCommand({
+      id: 'find-broken-image-links',
+      name: t('command.findBrokenLinks'),
+      callback: () => {
+        this.activateBrokenLinksView();
+      },
+    });
+
+    this.addCommand({
+      id: 'undo-last-operation',
+      name: t('command.undoLast'),
+      callback: async () => {
+        const entry = this.journal.getLastUndoableEntry();
+        if (!entry) {
+          new Notice(t('notice.nothingToUndo'));
+          return;
+        }
+        const { reverted, failed } = await this.journal.undo(entry.id);
+        new Notice(t('notice.undone', { title: entry.title, reverted, failed }));
+      },
+    });
+
+    this.addCommand({
+      id: 'show-operation-history',
+      name: t('command.showHistory'),
+      callback: () => {
+        new JournalHistoryModal(this.app, this).open();
+      },
+    });
+
+    this.addCommand({
+      id: 'cancel-hash-indexing',
+      name: t('command.cancelIndexing'),
+      callback: () => {
+        if (!this.hashIndexer.cancel()) {
+          new Notice(t('notice.notIndexing'));
+        }
+      },
+    });
+
+    // Background hashing progress
+    this.hashIndexer.attachStatusBar(this.addStatusBarItem());
+
     // Register event handlers
     this.registerEventHandlers();
 
     // Load hash cache on startup
     await this.hashService.loadCache();
 
+    // Load {counter} sequences
+    await this.fileManager.loadCounters();
+
+    // Load operation journal for undo
+    await this.journal.loadJournal();
+
+    // Load trashed images
+    await this.trashService.loadTrash();
+
+    // Load orphan registry
+    await this.orphanDetector.loadRegistry();
+
+    // Index HTML and frontmatter image references once the vault is loaded,
+    // purge trashed images past their retention period and re-check orphans.
+    // Hashing starts first so it isn't held up by the orphan move review.
+    this.app.workspace.onLayoutReady(async () => {
+      await this.referenceIndex.buildIndex();
+      await this.trashService.purgeExpired();
+      if (this.settings.enableDuplicateDetection) {
+        this.hashIndexer.enqueueAll();
+      }
+      if (this.settings.autoDetectOrphans) {
+        await this.orphanDetector.scanOrphanImages();
+      }
+    });
+
+    this.registerInterval(
+      window.setInterval(async () => {
+        if (this.settings.autoDetectOrphans) {
+          await this.orphanDetector.scanOrphanImages();
+        }
+      }, ORPHAN_RECHECK_INTERVAL_MS)
+    );
+
   }
 
   onunload() {
 
-    // Save hash cache
-    this.hashService.saveCache();
+    // Stop background hashing and save pending hash cache changes
+    this.hashIndexer.cancel(false);
+    this.hashService.flushSync();
   }
 
   async loadSettings() {
@@ -104,6 +228,20 @@ export default class ImageMasterPlugin extends Plugin {
       this.app.vault.on('create', async (file: TAbstractFile) => {
         if (file instanceof TFile && isImageFile(file.path)) {
           await this.handleImageCreate(file);
+        } else if (file instanceof TFile && file.extension === 'canvas') {
+          this.referenceIndex.indexCanvas(file, await this.app.vault.cachedRead(file));
+        }
+      })
+    );
+
+    // Re-measure and re-hash images edited in place
+    this.registerEvent(
+      this.app.vault.on('modify', (file: TAbstractFile) => {
+        if (!(file instanceof TFile) || !isImageFile(file.path)) return;
+
+        this.fileManager.forgetImageWidth(file.path);
+        if (this.settings.enableDuplicateDetection) {
+          this.hashIndexer.enqueue(file);
         }
       })
     );
@@ -117,7 +255,10 @@ export default class ImageMasterPlugin extends Plugin {
             await this.handleImageRename(file, oldPath);
           } else if (file.extension === 'md') {
             // Note was renamed/moved
+            this.referenceIndex.renameSource(oldPath, file.path);
             await this.handleNoteRename(file, oldPath);
+          } else if (file.extension === 'canvas') {
+            this.referenceIndex.renameSource(oldPath, file.path);
           }
         }
       })
@@ -129,35 +270,84 @@ export default class ImageMasterPlugin extends Plugin {
         if (file instanceof TFile) {
           if (isImageFile(file.path)) {
             await this.handleImageDelete(file);
-          } else if (file.extension === 'md') {
+          } else if (file.extension === 'md' || file.extension === 'canvas') {
+            this.referenceIndex.removeSource(file.path);
             await this.handleNoteDelete(file);
           }
         }
       })
     );
 
+    // Keep the HTML/frontmatter reference index in sync with note edits
+    this.registerEvent(
+      this.app.metadataCache.on('changed', (file: TFile, data: string) => {
+        if (file.extension === 'md') {
+          this.referenceIndex.indexNote(file, data);
+        }
+      })
+    );
+
+    // Canvas files are not parsed by the metadata cache, so re-index them on save
+    this.registerEvent(
+      this.app.vault.on('modify', async (file: TAbstractFile) => {
+        if (file instanceof TFile && file.extension === 'canvas') {
+          this.referenceIndex.indexCanvas(file, await this.app.vault.cachedRead(file));
+        }
+      })
+    );
+
     // Handle editor paste event for image handling
     this.registerEvent(
       this.app.workspace.on('editor-paste', async (evt: ClipboardEvent, editor, markdownView) => {
-        const files = evt.clipboardData?.files;
-        if (files && files.length > 0) {
-          const file = files[0];
-          if (file.type.startsWith('image/')) {
-            evt.preventDefault();
-            await this.handleImagePaste(file, markdownView.file);
-          }
+        const files = Array.from(evt.clipboardData?.files ?? []);
+        if (files.some((file) => file.type.startsWith('image/'))) {
+          evt.preventDefault();
+          await this.handleImagePaste(files, markdownView.file);
+        }
+      })
+    );
+
+    // Handle editor drop event for images dragged from the OS or a browser
+    this.registerEvent(
+      this.app.workspace.on('editor-drop', async (evt: DragEvent, editor, markdownView) => {
+        // Images dragged from the gallery get the same link as a double-click
+        const galleryImage = evt.dataTransfer?.getData(GALLERY_IMAGE_DRAG_TYPE);
+        if (galleryImage && markdownView.file) {
+          evt.preventDefault();
+          await this.fileManager.insertImageLink(markdownView.file, galleryImage, this.getDropPosition(evt, editor));
+          return;
+        }
+
+        const files = Array.from(evt.dataTransfer?.files ?? []);
+        if (files.some((file) => file.type.startsWith('image/'))) {
+          evt.preventDefault();
+          const dropPos = this.getDropPosition(evt, editor);
+          await this.handleImagePaste(files, markdownView.file, dropPos);
         }
       })
     );
   }
 
+  /**
+   * Resolve the editor position under the mouse pointer of a drop event
+   */
+  private getDropPosition(evt: DragEvent, editor: Editor): EditorPosition | undefined {
+    // Obsidian's Editor wraps a CodeMirror 6 view, which can map screen coordinates to offsets
+    const cm = (editor as any).cm;
+    const offset = cm?.posAtCoords?.({ x: evt.clientX, y: evt.clientY });
+    if (typeof offset === 'number') {
+      return editor.offsetToPos(offset);
+    }
+    return undefined;
+  }
+
   /**
    * Handle new image creation
    */
   private async handleImageCreate(file: TFile) {
-    // Calculate and cache hash
+    // Hash in the background
     if (this.settings.enableDuplicateDetection) {
-      await this.hashService.calculateHash(file);
+      this.hashIndexer.enqueue(file);
     }
   }
 
@@ -165,8 +355,19 @@ export default class ImageMasterPlugin extends Plugin {
    * Handle image rename/move
    */
   private async handleImageRename(file: TFile, oldPath: string) {
-    // Update all references to this image
-    await this.linkUpdater.updateImageReferences(oldPath, file.path);
+    // Update all references to this image (a running operation plan rewrites them as its own steps,
+    // and an undo restores the old note content itself)
+    if (!this.operationPlanner.isPlannedMove(oldPath) && !this.journal.isUndoing()) {
+      const entry = this.journal.begin(t('journal.title.imageRenamed', { from: oldPath, to: file.path }));
+      this.journal.record(entry, { type: 'rename', from: oldPath, to: file.path });
+      const updated = await this.linkUpdater.updateImageReferences(oldPath, file.path, entry);
+      if (updated > 0) {
+        await this.journal.commit(entry);
+      }
+    }
+    this.referenceIndex.renameImage(oldPath, file.path);
+    this.orphanDetector.renameImage(oldPath, file.path);
+    this.fileManager.forgetImageWidth(oldPath);
 
     // Update hash cache
     this.hashService.updateCachePath(oldPath, file.path);
@@ -176,32 +377,53 @@ export default class ImageMasterPlugin extends Plugin {
    * Handle image deletion
    */
   private async handleImageDelete(file: TFile) {
-    // Remove from hash cache
+    // Remove from hash cache, orphan registry and measured widths
     this.hashService.removeFromCache(file.path);
+    this.orphanDetector.removeImage(file.path);
+    this.fileManager.forgetImageWidth(file.path);
   }
 
   /**
    * Handle note rename/move
    */
   private async handleNoteRename(file: TFile, oldPath: string) {
+    // Undoing a note move must not move its images along again
+    if (this.journal.isUndoing()) return;
+
     const oldFolder = oldPath.substring(0, oldPath.lastIndexOf('/'));
     const newFolder = file.path.substring(0, file.path.lastIndexOf('/'));
 
+    // Storage rules are evaluated for the note's new location
+    const settings = this.fileManager.getEffectiveSettings(file);
+
+    // A folder declared in the note's frontmatter takes precedence over storage modes
+    if (this.fileManager.getDeclaredFolder(file) !== null) {
+      if (oldFolder !== newFolder && settings.moveImagesWithNote) {
+        await this.fileManager.moveImagesToDeclaredFolder(file, oldPath);
+      }
+      return;
+    }
+
+    // Moving into or out of a storage rule's scope takes the images from the old rule's folder
+    if (oldFolder !== newFolder && settings.moveImagesWithNote) {
+      if (await this.fileManager.moveImagesForRuleChange(file, oldPath)) return;
+    }
+
     // If folder changed and using folderBased or sameAsNote mode
     if (oldFolder !== newFolder) {
-      if (this.settings.storageMode === 'folderBased' && this.settings.moveImagesWithNote) {
+      if (settings.storageMode === 'folderBased' && settings.moveImagesWithNote) {
         await this.fileManager.handleNoteFolderChange(file, oldPath);
-      } else if (this.settings.storageMode === 'sameAsNote' && this.settings.moveImagesWithNote) {
+      } else if (settings.storageMode === 'sameAsNote' && settings.moveImagesWithNote) {
         await this.fileManager.moveImagesWithNote(file, oldPath);
       }
     }
 
     // If using noteFolder mode and note was renamed
-    if (this.settings.storageMode === 'noteFolder' && this.settings.renameImageFolder) {
+    if (settings.storageMode === 'noteFolder' && settings.renameImageFolder) {
       const oldName = oldPath.split('/').pop()?.replace('.md', '') || '';
       const newName = file.basename;
       if (oldName !== newName) {
-        await this.fileManager.renameImageFolder(oldName, newName);
+        await this.fileManager.renameImageFolder(file, oldName, newName);
       }
     }
   }
@@ -220,46 +442,160 @@ export default class ImageMasterPlugin extends Plugin {
   }
 
   /**
-   * Handle image paste from clipboard
+   * Handle image paste from clipboard or drop into the editor.
+   * Every image in the payload is saved in order and one combined link block is inserted.
+   * Non-image files are stored the way Obsidian would store them by default.
+   * When insertAt is given (drop), the links are inserted there instead of at the cursor.
    */
-  private async handleImagePaste(blob: File, activeFile: TFile | null) {
+  private async handleImagePaste(files: File[], activeFile: TFile | null, insertAt?: EditorPosition) {
     if (!activeFile) {
       new Notice(t('notice.noActiveNote'));
       return;
     }
 
-    try {
-      // Convert blob to ArrayBuffer
-      const arrayBuffer = await blob.arrayBuffer();
+    const links: string[] = [];
+    const imageCount = files.filter((file) => file.type.startsWith('image/')).length;
+    let savedCount = 0;
+    let reusedCount = 0;
+    let failedCount = 0;
+    let skippedCount = 0;
+    let attachmentFailedCount = 0;
+    let lastSavedName = '';
+
+    for (const file of files) {
+      if (!file.type.startsWith('image/')) {
+        try {
+          links.push(await this.fileManager.saveDefaultAttachment(file, activeFile));
+        } catch (error) {
+          console.error('Error saving attachment:', error);
+          attachmentFailedCount++;
+        }
+        continue;
+      }
 
-      // Check for duplicates
-      if (this.settings.enableDuplicateDetection) {
-        const existingImage = await this.hashService.findDuplicate(arrayBuffer);
-        if (existingImage) {
-          if (this.settings.duplicateAction === 'reuse') {
-            // Insert link to existing image
-            await this.fileManager.insertImageLink(activeFile, existingImage);
-            new Notice(t('notice.reusingDuplicate'));
-            return;
+      try {
+        const result = await this.processPastedImage(file, activeFile);
+        if (!result) {
+          skippedCount++;
+          continue;
+        }
+        links.push(await this.fileManager.createImageLink(result.path, activeFile));
+        if (result.reused) {
+          reusedCount++;
+        } else {
+          savedCount++;
+          lastSavedName = result.path.split('/').pop() || result.path;
+        }
+      } catch (error) {
+        console.error('Error handling image paste:', error);
+        failedCount++;
+      }
+    }
+
+    if (links.length > 0) {
+      await this.fileManager.insertLinks(activeFile, links, insertAt);
+    }
+
+    // Report the outcome in a single notice
+    if (imageCount > 1) {
+      new Notice(t('notice.pasteSummary', {
+        count: imageCount,
+        saved: savedCount,
+        reused: reusedCount,
+        failed: failedCount,
+        skipped: skippedCount,
+      }));
+    } else if (failedCount > 0) {
+      new Notice(t('notice.failedToSave'));
+    } else if (reusedCount > 0) {
+      new Notice(t('notice.reusingDuplicate'));
+    } else if (savedCount > 0) {
+      new Notice(t('notice.imageSaved', { name: lastSavedName }));
+    }
+    if (attachmentFailedCount > 0) {
+      new Notice(t('notice.attachmentsFailed', { count: attachmentFailedCount }));
+    }
+  }
+
+  /**
+   * Run a single pasted image through duplicate detection and the storage rules.
+   * Returns the vault path to link to and whether an existing image was reused,
+   * or null when the user cancelled the duplicate dialog.
+   */
+  private async processPastedImage(
+    blob: File,
+    activeFile: TFile
+  ): Promise<{ path: string; reused: boolean } | null> {
+    // Convert blob to ArrayBuffer
+    const arrayBuffer = await blob.arrayBuffer();
+
+    // Check for duplicates
+    if (this.settings.enableDuplicateDetection) {
+      const existingImage = await this.hashService.findDuplicate(arrayBuffer);
+      if (existingImage) {
+        const action = await this.resolveDuplicateAction(arrayBuffer, blob.type, existingImage);
+        if (action === 'cancel') {
+          return null;
+        }
+        if (action === 'reuse') {
+          return { path: existingImage, reused: true };
+        }
+        // If action is 'rename', continue to create new file
+      } else if (this.settings.detectSimilarOnPaste) {
+        const [similar] = await this.hashService.findSimilar(arrayBuffer, this.settings.similarityThreshold, blob.type);
+        if (similar) {
+          const action = await this.resolveDuplicateAction(arrayBuffer, blob.type, similar.path, similar.distance);
+          if (action === 'cancel') {
+            return null;
+          }
+          if (action === 'reuse') {
+            return { path: similar.path, reused: true };
           }
-          // If action is 'ask' or 'rename', continue to create new file
         }
       }
+    }
 
-      // Determine save path based on settings
-      const savePath = await this.fileManager.determineSavePath(activeFile, blob.name || 'image.png');
+    // Determine save path based on settings
+    const savePath = await this.fileManager.determineSavePath(activeFile, blob.name || 'image.png', arrayBuffer);
 
-      // Save the image
-      const savedFile = await this.fileManager.saveImage(arrayBuffer, savePath);
+    // Save the image
+    const savedFile = await this.fileManager.saveImage(arrayBuffer, savePath);
 
-      // Insert link to the new image
-      await this.fileManager.insertImageLink(activeFile, savedFile.path);
+    // Cache the hash right away so later images in the same paste can match it
+    if (this.settings.enableDuplicateDetection) {
+      await this.hashService.calculateHash(savedFile);
+    }
 
-      new Notice(t('notice.imageSaved', { name: savedFile.name }));
-    } catch (error) {
-      console.error('Error handling image paste:', error);
-      new Notice(t('notice.failedToSave'));
+    return { path: savedFile.path, reused: false };
+  }
+
+  /**
+   * Decide what to do with a pasted image that duplicates an existing one
+   * (or only looks like it, when distance is given).
+   * For 'ask', shows the comparison dialog unless a choice was remembered this session.
+   */
+  private async resolveDuplicateAction(
+    data: ArrayBuffer,
+    mimeType: string,
+    existingPath: string,
+    distance: number | null = null
+  ): Promise<'reuse' | 'rename' | 'cancel'> {
+    if (this.settings.duplicateAction !== 'ask') {
+      return this.settings.duplicateAction;
     }
+
+    if (this.sessionDuplicateAction) {
+      return this.sessionDuplicateAction;
+    }
+
+    const referencedBy = this.linkUpdater.findNotesReferencingImage(existingPath);
+    const decision = await askDuplicateAction(this.app, data, mimeType, existingPath, referencedBy, distance);
+
+    if (decision.remember && decision.choice !== 'cancel') {
+      this.sessionDuplicateAction = decision.choice;
+    }
+
+    return decision.choice;
   }
 
   /**
@@ -284,4 +620,21 @@ export default class ImageMasterPlugin extends Plugin {
       workspace.revealLeaf(leaf);
     }
   }
+
+  async activateBrokenLinksView() {
+    const { workspace } = this.app;
+
+    let leaf: WorkspaceLeaf | null = null;
+    const leaves = workspace.getLeavesOfType(BROKEN_LINKS_VIEW_TYPE);
+
+    if (leaves.length > 0) {
+      leaf = leaves[0];
+    } else {
+      // Open in a new tab; the list needs more room than the sidebar
+      leaf = workspace.getLeaf('tab');
+      await leaf.setViewState({ type: BROKEN_LINKS_VIEW_TYPE, active: true });
+    }
+
+    workspace.revealLeaf(leaf);
+  }
 }
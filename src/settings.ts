@@ -1,13 +1,17 @@
-import { App, PluginSettingTab, Setting } from 'obsidian';
+import { App, DropdownComponent, Notice, PluginSettingTab, Setting, TFile, normalizePath } from 'obsidian';
 import ImageMasterPlugin from './main';
 import {
   StorageMode,
   FilenamePattern,
   LinkFormat,
   OrphanHandling,
+  DeleteMode,
   DuplicateAction,
+  StorageRule,
+  StorageRuleConditionType,
 } from './types';
 import { t, setLanguage, Language } from './i18n';
+import { MAX_SIMILARITY_DISTANCE } from './core/PerceptualHash';
 
 export class ImageMasterSettingTab extends PluginSettingTab {
   plugin: ImageMasterPlugin;
@@ -50,12 +54,7 @@ export class ImageMasterSettingTab extends PluginSettingTab {
       .setName(t('settings.storageMode'))
       .setDesc(t('settings.storageMode.desc'))
       .addDropdown((dropdown) =>
-        dropdown
-          .addOption('folderBased', t('settings.storageMode.folderBased'))
-          .addOption('central', t('settings.storageMode.central'))
-          .addOption('dateBased', t('settings.storageMode.dateBased'))
-          .addOption('noteFolder', t('settings.storageMode.noteFolder'))
-          .addOption('sameAsNote', t('settings.storageMode.sameAsNote'))
+        this.addStorageModeOptions(dropdown)
           .setValue(this.plugin.settings.storageMode)
           .onChange(async (value) => {
             this.plugin.settings.storageMode = value as StorageMode;
@@ -112,6 +111,30 @@ export class ImageMasterSettingTab extends PluginSettingTab {
         );
     }
 
+    // Template mode options
+    if (this.plugin.settings.storageMode === 'template') {
+      let previewEl: HTMLElement | null = null;
+
+      new Setting(containerEl)
+        .setName(t('settings.pathTemplate'))
+        .setDesc(t('settings.pathTemplate.desc'))
+        .addText((text) =>
+          text
+            .setPlaceholder('{noteFolder}/assets/{year}')
+            .setValue(this.plugin.settings.pathTemplate)
+            .onChange(async (value) => {
+              this.plugin.settings.pathTemplate = value;
+              await this.plugin.saveSettings();
+              if (previewEl) {
+                await this.renderPathPreview(previewEl);
+              }
+            })
+        );
+
+      previewEl = containerEl.createDiv({ cls: 'image-master-path-preview setting-item-description' });
+      this.renderPathPreview(previewEl);
+    }
+
     // ========================================
     // Filename Settings
     // ========================================
@@ -121,12 +144,7 @@ export class ImageMasterSettingTab extends PluginSettingTab {
       .setName(t('settings.filenamePattern'))
       .setDesc(t('settings.filenamePattern.desc'))
       .addDropdown((dropdown) =>
-        dropdown
-          .addOption('original', t('settings.filenamePattern.original'))
-          .addOption('timestamp', t('settings.filenamePattern.timestamp'))
-          .addOption('uuid', t('settings.filenamePattern.uuid'))
-          .addOption('hash', t('settings.filenamePattern.hash'))
-          .addOption('custom', t('settings.filenamePattern.custom'))
+        this.addFilenamePatternOptions(dropdown)
           .setValue(this.plugin.settings.filenamePattern)
           .onChange(async (value) => {
             this.plugin.settings.filenamePattern = value as FilenamePattern;
@@ -150,12 +168,77 @@ export class ImageMasterSettingTab extends PluginSettingTab {
         );
     }
 
+    // ========================================
+    // Storage Rules
+    // ========================================
+    containerEl.createEl('h2', { text: t('settings.storageRules') });
+    containerEl.createEl('p', {
+      text: t('settings.storageRules.desc'),
+      cls: 'setting-item-description',
+    });
+
+    this.plugin.settings.storageRules.forEach((rule, index) => {
+      this.renderStorageRule(containerEl, rule, index);
+    });
+
+    new Setting(containerEl)
+      .addButton((button) =>
+        button
+          .setButtonText(t('settings.storageRules.add'))
+          .onClick(async () => {
+            const settings = this.plugin.settings;
+            const newRule: StorageRule = {
+              enabled: true,
+              conditionType: 'folder',
+              condition: '',
+              storageMode: settings.storageMode,
+              folder: '',
+              filenamePattern: settings.filenamePattern,
+              customPattern: settings.customPattern,
+              linkFormat: settings.linkFormat,
+            };
+            settings.storageRules = [...settings.storageRules, newRule];
+            await this.plugin.saveSettings();
+            this.display();
+          })
+      );
+
+    // Rule tester
+    let testPath = this.app.workspace.getActiveFile()?.path || '';
+    let testResultEl: HTMLElement | null = null;
+
+    new Setting(containerEl)
+      .setName(t('settings.storageRules.tester'))
+      .setDesc(t('settings.storageRules.tester.desc'))
+      .addText((text) =>
+        text
+          .setPlaceholder('folder/note.md')
+          .setValue(testPath)
+          .onChange((value) => {
+            testPath = value.trim();
+          })
+      )
+      .addButton((button) =>
+        button
+          .setButtonText(t('settings.storageRules.test'))
+          .onClick(() => {
+            if (testResultEl) {
+              this.renderRuleTestResult(testResultEl, testPath);
+            }
+          })
+      );
+
+    testResultEl = containerEl.createDiv({ cls: 'image-master-rule-test-result setting-item-description' });
+    if (testPath) {
+      this.renderRuleTestResult(testResultEl, testPath);
+    }
+
     // ========================================
     // Note Integration Settings
     // ========================================
     containerEl.createEl('h2', { text: t('settings.noteIntegration') });
 
-    if (['folderBased', 'sameAsNote'].includes(this.plugin.settings.storageMode)) {
+    if (this.isStorageModeInUse('folderBased', 'sameAsNote')) {
       new Setting(containerEl)
         .setName(t('settings.moveImagesWithNote'))
         .setDesc(t('settings.moveImagesWithNote.desc'))
@@ -169,7 +252,7 @@ export class ImageMasterSettingTab extends PluginSettingTab {
         );
     }
 
-    if (this.plugin.settings.storageMode === 'noteFolder') {
+    if (this.isStorageModeInUse('noteFolder')) {
       new Setting(containerEl)
         .setName(t('settings.renameImageFolder'))
         .setDesc(t('settings.renameImageFolder.desc'))
@@ -204,18 +287,56 @@ export class ImageMasterSettingTab extends PluginSettingTab {
       .setName(t('settings.linkFormat.label'))
       .setDesc(t('settings.linkFormat.desc'))
       .addDropdown((dropdown) =>
-        dropdown
-          .addOption('wikilink', t('settings.linkFormat.wikilink'))
-          .addOption('wikilink-path', t('settings.linkFormat.wikilinkPath'))
-          .addOption('markdown-relative', t('settings.linkFormat.markdownRelative'))
-          .addOption('markdown-absolute', t('settings.linkFormat.markdownAbsolute'))
+        this.addLinkFormatOptions(dropdown)
           .setValue(this.plugin.settings.linkFormat)
           .onChange(async (value) => {
             this.plugin.settings.linkFormat = value as LinkFormat;
             await this.plugin.saveSettings();
+            this.display();
           })
       );
 
+    if (this.isLinkFormatInUse('template')) {
+      new Setting(containerEl)
+        .setName(t('settings.linkTemplate'))
+        .setDesc(t('settings.linkTemplate.desc'))
+        .addTextArea((text) =>
+          text
+            .setPlaceholder('![[{path}|{width}]]')
+            .setValue(this.plugin.settings.linkTemplate)
+            .onChange(async (value) => {
+              this.plugin.settings.linkTemplate = value;
+              await this.plugin.saveSettings();
+            })
+        );
+
+      new Setting(containerEl)
+        .setName(t('settings.linkWidth'))
+        .setDesc(t('settings.linkWidth.desc'))
+        .addText((text) =>
+          text
+            .setPlaceholder('0')
+            .setValue(String(this.plugin.settings.linkWidth))
+            .onChange(async (value) => {
+              const width = parseInt(value, 10);
+              this.plugin.settings.linkWidth = isNaN(width) || width < 0 ? 0 : width;
+              await this.plugin.saveSettings();
+            })
+        );
+
+      new Setting(containerEl)
+        .setName(t('settings.linkWidthFromImage'))
+        .setDesc(t('settings.linkWidthFromImage.desc'))
+        .addToggle((toggle) =>
+          toggle
+            .setValue(this.plugin.settings.linkWidthFromImage)
+            .onChange(async (value) => {
+              this.plugin.settings.linkWidthFromImage = value;
+              await this.plugin.saveSettings();
+            })
+        );
+    }
+
     // ========================================
     // Duplicate Detection Settings
     // ========================================
@@ -249,8 +370,62 @@ export class ImageMasterSettingTab extends PluginSettingTab {
               await this.plugin.saveSettings();
             })
         );
+
+      new Setting(containerEl)
+        .setName(t('settings.detectSimilarOnPaste'))
+        .setDesc(t('settings.detectSimilarOnPaste.desc'))
+        .addToggle((toggle) =>
+          toggle
+            .setValue(this.plugin.settings.detectSimilarOnPaste)
+            .onChange(async (value) => {
+              this.plugin.settings.detectSimilarOnPaste = value;
+              await this.plugin.saveSettings();
+            })
+        );
     }
 
+    new Setting(containerEl)
+      .setName(t('settings.similarityThreshold'))
+      .setDesc(t('settings.similarityThreshold.desc'))
+      .addSlider((slider) =>
+        slider
+          .setLimits(0, MAX_SIMILARITY_DISTANCE, 1)
+          .setValue(this.plugin.settings.similarityThreshold)
+          .setDynamicTooltip()
+          .onChange(async (value) => {
+            this.plugin.settings.similarityThreshold = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName(t('settings.hashCacheFolder'))
+      .setDesc(t('settings.hashCacheFolder.desc'))
+      .addText((text) =>
+        text
+          .setPlaceholder(this.plugin.manifest.dir || '')
+          .setValue(this.plugin.settings.hashCacheFolder)
+          .then((text) => {
+            // Apply once editing is done rather than on every keystroke, since the cache is moved
+            text.inputEl.addEventListener('change', async () => {
+              const value = text.getValue().trim();
+              const folder = value ? normalizePath(value) : '';
+              if (/[:*?"<>|]/.test(folder) || folder.split('/').includes('..')) {
+                new Notice(t('notice.invalidHashCacheFolder', { folder: value }));
+                text.setValue(this.plugin.settings.hashCacheFolder);
+                return;
+              }
+
+              if (await this.plugin.hashService.setCacheFolder(folder)) {
+                await this.plugin.saveSettings();
+              } else {
+                new Notice(t('notice.hashCacheMoveFailed', { folder }));
+              }
+              text.setValue(this.plugin.settings.hashCacheFolder);
+            });
+          })
+      );
+
     // ========================================
     // Orphan Image Settings
     // ========================================
@@ -297,6 +472,77 @@ export class ImageMasterSettingTab extends PluginSettingTab {
               await this.plugin.saveSettings();
             })
         );
+
+      new Setting(containerEl)
+        .setName(t('settings.orphanGraceDays'))
+        .setDesc(t('settings.orphanGraceDays.desc'))
+        .addText((text) =>
+          text
+            .setPlaceholder('7')
+            .setValue(String(this.plugin.settings.orphanGraceDays))
+            .onChange(async (value) => {
+              const days = parseInt(value, 10);
+              this.plugin.settings.orphanGraceDays = isNaN(days) || days < 0 ? 0 : days;
+              await this.plugin.saveSettings();
+            })
+        );
+    }
+
+    new Setting(containerEl)
+      .setName(t('settings.orphanExcludeFolders'))
+      .setDesc(t('settings.orphanExcludeFolders.desc'))
+      .addTextArea((text) =>
+        text
+          .setPlaceholder('Templates\nArchive/**')
+          .setValue(this.plugin.settings.orphanExcludeFolders.join('\n'))
+          .onChange(async (value) => {
+            this.plugin.settings.orphanExcludeFolders = this.parseLines(value);
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName(t('settings.orphanExcludePatterns'))
+      .setDesc(t('settings.orphanExcludePatterns.desc'))
+      .addTextArea((text) =>
+        text
+          .setPlaceholder('wallpaper-*\n*.svg')
+          .setValue(this.plugin.settings.orphanExcludePatterns.join('\n'))
+          .onChange(async (value) => {
+            this.plugin.settings.orphanExcludePatterns = this.parseLines(value);
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName(t('settings.deleteMode'))
+      .setDesc(t('settings.deleteMode.desc'))
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption('imageMasterTrash', t('settings.deleteMode.imageMasterTrash'))
+          .addOption('obsidianTrash', t('settings.deleteMode.obsidianTrash'))
+          .setValue(this.plugin.settings.deleteMode)
+          .onChange(async (value) => {
+            this.plugin.settings.deleteMode = value as DeleteMode;
+            await this.plugin.saveSettings();
+            this.display();
+          })
+      );
+
+    if (this.plugin.settings.deleteMode === 'imageMasterTrash') {
+      new Setting(containerEl)
+        .setName(t('settings.trashRetentionDays'))
+        .setDesc(t('settings.trashRetentionDays.desc'))
+        .addText((text) =>
+          text
+            .setPlaceholder('30')
+            .setValue(String(this.plugin.settings.trashRetentionDays))
+            .onChange(async (value) => {
+              const days = parseInt(value, 10);
+              this.plugin.settings.trashRetentionDays = isNaN(days) || days < 0 ? 0 : days;
+              await this.plugin.saveSettings();
+            })
+        );
     }
 
     // ========================================
@@ -345,4 +591,249 @@ export class ImageMasterSettingTab extends PluginSettingTab {
           })
       );
   }
+
+  /**
+   * Show the folder the path template resolves to for the active note
+   */
+  private async renderPathPreview(previewEl: HTMLElement): Promise<void> {
+    const activeFile = this.app.workspace.getActiveFile();
+    if (!activeFile) {
+      previewEl.setText(t('settings.pathTemplate.noNote'));
+      return;
+    }
+
+    const resolved = await this.plugin.fileManager.resolvePathTemplate(
+      this.plugin.settings.pathTemplate,
+      activeFile
+    );
+    previewEl.setText(t('settings.pathTemplate.preview', { note: activeFile.path, path: resolved || '/' }));
+  }
+
+  /**
+   * Render the editor for a single storage rule
+   */
+  private renderStorageRule(containerEl: HTMLElement, rule: StorageRule, index: number): void {
+    const ruleEl = containerEl.createDiv({ cls: 'image-master-rule' });
+    const rules = this.plugin.settings.storageRules;
+
+    new Setting(ruleEl)
+      .setName(t('settings.storageRules.rule', { index: index + 1 }))
+      .setHeading()
+      .addToggle((toggle) =>
+        toggle
+          .setTooltip(t('settings.storageRules.enabled'))
+          .setValue(rule.enabled)
+          .onChange(async (value) => {
+            await this.updateStorageRule(index, { enabled: value });
+          })
+      )
+      .addExtraButton((button) =>
+        button
+          .setIcon('arrow-up')
+          .setTooltip(t('settings.storageRules.moveUp'))
+          .setDisabled(index === 0)
+          .onClick(async () => {
+            await this.moveStorageRule(index, index - 1);
+          })
+      )
+      .addExtraButton((button) =>
+        button
+          .setIcon('arrow-down')
+          .setTooltip(t('settings.storageRules.moveDown'))
+          .setDisabled(index === rules.length - 1)
+          .onClick(async () => {
+            await this.moveStorageRule(index, index + 1);
+          })
+      )
+      .addExtraButton((button) =>
+        button
+          .setIcon('trash')
+          .setTooltip(t('settings.storageRules.remove'))
+          .onClick(async () => {
+            this.plugin.settings.storageRules = rules.filter((_, i) => i !== index);
+            await this.plugin.saveSettings();
+            this.display();
+          })
+      );
+
+    new Setting(ruleEl)
+      .setName(t('settings.storageRules.condition'))
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption('folder', t('settings.storageRules.condition.folder'))
+          .addOption('tag', t('settings.storageRules.condition.tag'))
+          .addOption('frontmatter', t('settings.storageRules.condition.frontmatter'))
+          .setValue(rule.conditionType)
+          .onChange(async (value) => {
+            await this.updateStorageRule(index, { conditionType: value as StorageRuleConditionType });
+          })
+      )
+      .addText((text) =>
+        text
+          .setPlaceholder(
+            rule.conditionType === 'folder' ? 'Journal/**' : rule.conditionType === 'tag' ? '#project' : 'type=meeting'
+          )
+          .setValue(rule.condition)
+          .onChange(async (value) => {
+            await this.updateStorageRule(index, { condition: value }, false);
+          })
+      );
+
+    const storageSetting = new Setting(ruleEl)
+      .setName(t('settings.storageMode'))
+      .addDropdown((dropdown) =>
+        this.addStorageModeOptions(dropdown)
+          .setValue(rule.storageMode)
+          .onChange(async (value) => {
+            await this.updateStorageRule(index, { storageMode: value as StorageMode });
+          })
+      );
+
+    if (!['folderBased', 'sameAsNote'].includes(rule.storageMode)) {
+      storageSetting.addText((text) =>
+        text
+          .setPlaceholder(rule.storageMode === 'template' ? this.plugin.settings.pathTemplate : this.plugin.settings.centralFolder)
+          .setValue(rule.folder)
+          .onChange(async (value) => {
+            await this.updateStorageRule(index, { folder: value }, false);
+          })
+      );
+    }
+
+    const filenameSetting = new Setting(ruleEl)
+      .setName(t('settings.filenamePattern'))
+      .addDropdown((dropdown) =>
+        this.addFilenamePatternOptions(dropdown)
+          .setValue(rule.filenamePattern)
+          .onChange(async (value) => {
+            await this.updateStorageRule(index, { filenamePattern: value as FilenamePattern });
+          })
+      );
+
+    if (rule.filenamePattern === 'custom') {
+      filenameSetting.addText((text) =>
+        text
+          .setPlaceholder('{timestamp}_{original}')
+          .setValue(rule.customPattern)
+          .onChange(async (value) => {
+            await this.updateStorageRule(index, { customPattern: value }, false);
+          })
+      );
+    }
+
+    new Setting(ruleEl)
+      .setName(t('settings.linkFormat.label'))
+      .addDropdown((dropdown) =>
+        this.addLinkFormatOptions(dropdown)
+          .setValue(rule.linkFormat)
+          .onChange(async (value) => {
+            await this.updateStorageRule(index, { linkFormat: value as LinkFormat });
+          })
+      );
+  }
+
+  /**
+   * Update one storage rule, optionally re-rendering the tab
+   */
+  private async updateStorageRule(index: number, patch: Partial<StorageRule>, redraw = true): Promise<void> {
+    this.plugin.settings.storageRules = this.plugin.settings.storageRules.map((rule, i) =>
+      i === index ? { ...rule, ...patch } : rule
+    );
+    await this.plugin.saveSettings();
+    if (redraw) {
+      this.display();
+    }
+  }
+
+  /**
+   * Move a storage rule to a new position in the evaluation order
+   */
+  private async moveStorageRule(from: number, to: number): Promise<void> {
+    const rules = [...this.plugin.settings.storageRules];
+    if (to < 0 || to >= rules.length) return;
+
+    const [rule] = rules.splice(from, 1);
+    rules.splice(to, 0, rule);
+    this.plugin.settings.storageRules = rules;
+    await this.plugin.saveSettings();
+    this.display();
+  }
+
+  /**
+   * Show which storage rule applies to the note at the given path
+   */
+  private renderRuleTestResult(resultEl: HTMLElement, notePath: string): void {
+    const file = this.app.vault.getAbstractFileByPath(notePath);
+    if (!(file instanceof TFile)) {
+      resultEl.setText(t('settings.storageRules.noteNotFound', { path: notePath }));
+      return;
+    }
+
+    const match = this.plugin.fileManager.findMatchingRule(file);
+    resultEl.setText(
+      match
+        ? t('settings.storageRules.matched', { index: match.index + 1, condition: match.rule.condition })
+        : t('settings.storageRules.noMatch')
+    );
+  }
+
+  /**
+   * Check whether the global setting or any enabled storage rule uses one of the modes
+   */
+  private isStorageModeInUse(...modes: StorageMode[]): boolean {
+    const settings = this.plugin.settings;
+    return (
+      modes.includes(settings.storageMode) ||
+      settings.storageRules.some((rule) => rule.enabled && modes.includes(rule.storageMode))
+    );
+  }
+
+  /**
+   * Check whether the global setting or any enabled storage rule uses one of the link formats
+   */
+  private isLinkFormatInUse(...formats: LinkFormat[]): boolean {
+    const settings = this.plugin.settings;
+    return (
+      formats.includes(settings.linkFormat) ||
+      settings.storageRules.some((rule) => rule.enabled && formats.includes(rule.linkFormat))
+    );
+  }
+
+  private addStorageModeOptions(dropdown: DropdownComponent): DropdownComponent {
+    return dropdown
+      .addOption('folderBased', t('settings.storageMode.folderBased'))
+      .addOption('central', t('settings.storageMode.central'))
+      .addOption('dateBased', t('settings.storageMode.dateBased'))
+      .addOption('noteFolder', t('settings.storageMode.noteFolder'))
+      .addOption('sameAsNote', t('settings.storageMode.sameAsNote'))
+      .addOption('template', t('settings.storageMode.template'));
+  }
+
+  private addFilenamePatternOptions(dropdown: DropdownComponent): DropdownComponent {
+    return dropdown
+      .addOption('original', t('settings.filenamePattern.original'))
+      .addOption('timestamp', t('settings.filenamePattern.timestamp'))
+      .addOption('uuid', t('settings.filenamePattern.uuid'))
+      .addOption('hash', t('settings.filenamePattern.hash'))
+      .addOption('custom', t('settings.filenamePattern.custom'));
+  }
+
+  private addLinkFormatOptions(dropdown: DropdownComponent): DropdownComponent {
+    return dropdown
+      .addOption('wikilink', t('settings.linkFormat.wikilink'))
+      .addOption('wikilink-path', t('settings.linkFormat.wikilinkPath'))
+      .addOption('markdown-relative', t('settings.linkFormat.markdownRelative'))
+      .addOption('markdown-absolute', t('settings.linkFormat.markdownAbsolute'))
+      .addOption('template', t('settings.linkFormat.template'));
+  }
+
+  /**
+   * Split a textarea value into trimmed, non-empty lines
+   */
+  private parseLines(value: string): string[] {
+    return value
+      .split('\n')
+      .map((line) => line.trim())
+      .filter((line) => line.length > 0);
+  }
 }
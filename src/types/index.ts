@@ -11,7 +11,8 @@ export type StorageMode =
   | 'central'        // Single attachments folder
   | 'dateBased'      // attachments/{year}/{month}
   | 'noteFolder'     // attachments/{noteName}
-  | 'sameAsNote';    // Same folder as note
+  | 'sameAsNote'     // Same folder as note
+  | 'template';      // User-defined folder template
 
 export type FilenamePattern =
   | 'original'       // Keep original filename
@@ -24,18 +25,43 @@ export type LinkFormat =
   | 'wikilink'           // ![[image.png]]
   | 'wikilink-path'      // ![[folder/image.png]]
   | 'markdown-relative'  // ![](./folder/image.png)
-  | 'markdown-absolute'; // ![](/folder/image.png)
+  | 'markdown-absolute'  // ![](/folder/image.png)
+  | 'template';          // User-defined link template
 
 export type OrphanHandling =
   | 'keep'           // Keep in place
   | 'moveToFolder'   // Move to orphan folder
   | 'markOnly';      // Only mark as orphan
 
+export type DeleteMode =
+  | 'imageMasterTrash'   // .image-master/trash, restorable from the gallery
+  | 'obsidianTrash';     // Follow Obsidian's "Deleted files" preference
+
 export type DuplicateAction =
   | 'reuse'          // Reuse existing image
   | 'ask'            // Ask user
   | 'rename';        // Create with new name
 
+// ============================================
+// Storage Rules
+// ============================================
+
+export type StorageRuleConditionType =
+  | 'folder'         // Note path glob, e.g. "Journal/**"
+  | 'tag'            // Note tag, e.g. "#project" (nested tags match too)
+  | 'frontmatter';   // Frontmatter "key" or "key=value"
+
+export interface StorageRule {
+  enabled: boolean;
+  conditionType: StorageRuleConditionType;
+  condition: string;
+  storageMode: StorageMode;
+  folder: string;                  // Central folder or path template, depending on storageMode
+  filenamePattern: FilenamePattern;
+  customPattern: string;
+  linkFormat: LinkFormat;
+}
+
 // ============================================
 // Settings Interface
 // ============================================
@@ -49,11 +75,15 @@ export interface ImageMasterSettings {
   imageFolderSuffix: string;      // Default: "_img"
   centralFolder: string;           // Default: "attachments"
   dateFormat: string;              // Default: "{year}/{month}"
+  pathTemplate: string;            // Default: "{noteFolder}/assets/{year}"
 
   // Filename
   filenamePattern: FilenamePattern;
   customPattern: string;           // e.g., "{timestamp}_{original}"
 
+  // Storage Rules (first matching rule overrides the settings above)
+  storageRules: StorageRule[];
+
   // Note Integration
   moveImagesWithNote: boolean;     // Move images when note moves
   renameImageFolder: boolean;      // Rename folder when note renamed (noteFolder mode)
@@ -61,16 +91,29 @@ export interface ImageMasterSettings {
 
   // Link Format
   linkFormat: LinkFormat;
+  linkTemplate: string;            // e.g., "![[{path}|{width}]]"
+  linkWidth: number;               // Default display width for {width}, 0 = none
+  linkWidthFromImage: boolean;     // Use the image's pixel width (capped at linkWidth) for {width}
 
   // Duplicate Detection
   enableDuplicateDetection: boolean;
   duplicateAction: DuplicateAction;
+  detectSimilarOnPaste: boolean;   // Also look for visually similar images when pasting
+  hashCacheFolder: string;         // Where the hash cache is stored, '' = plugin folder
+  similarityThreshold: number;     // Max perceptual-hash bit distance (0-64) to count as similar
 
   // Orphan Images
   orphanHandling: OrphanHandling;
   orphanFolder: string;            // Default: "_orphaned"
+  orphanGraceDays: number;         // Days an image must stay orphaned before it is moved
+  orphanExcludeFolders: string[];  // Globs; images in these folders, or only used by notes here, are protected
+  orphanExcludePatterns: string[]; // Filename globs for protected images, e.g. "wallpaper-*"
   autoDetectOrphans: boolean;
 
+  // Trash
+  deleteMode: DeleteMode;
+  trashRetentionDays: number;      // Purge trashed images after N days, 0 = keep
+
   // UI Settings
   galleryColumns: number;          // 3-6
   thumbnailSize: 'small' | 'medium' | 'large';
@@ -86,11 +129,15 @@ export const DEFAULT_SETTINGS: ImageMasterSettings = {
   imageFolderSuffix: '_img',
   centralFolder: 'attachments',
   dateFormat: '{year}/{month}',
+  pathTemplate: '{noteFolder}/assets/{year}',
 
   // Filename
   filenamePattern: 'timestamp',
   customPattern: '{timestamp}_{original}',
 
+  // Storage Rules
+  storageRules: [],
+
   // Note Integration
   moveImagesWithNote: true,
   renameImageFolder: true,
@@ -98,16 +145,29 @@ export const DEFAULT_SETTINGS: ImageMasterSettings = {
 
   // Link Format
   linkFormat: 'wikilink-path',
+  linkTemplate: '![[{path}|{width}]]',
+  linkWidth: 0,
+  linkWidthFromImage: false,
 
   // Duplicate Detection
   enableDuplicateDetection: true,
   duplicateAction: 'reuse',
+  detectSimilarOnPaste: false,
+  hashCacheFolder: '',
+  similarityThreshold: 6,
 
   // Orphan Images
   orphanHandling: 'markOnly',
   orphanFolder: '_orphaned',
+  orphanGraceDays: 7,
+  orphanExcludeFolders: [],
+  orphanExcludePatterns: [],
   autoDetectOrphans: true,
 
+  // Trash
+  deleteMode: 'imageMasterTrash',
+  trashRetentionDays: 30,
+
   // UI Settings
   galleryColumns: 4,
   thumbnailSize: 'medium',
@@ -130,6 +190,68 @@ export interface ImageInfo {
   height?: number;                 // Image height in pixels
   referencedBy: string[];          // List of note paths that reference this image
   isOrphan: boolean;               // True if no notes reference this image
+  orphanedSince?: number;          // When the image was first found unreferenced
+  isProtected?: boolean;           // Excluded from orphan cleanup by an exclusion rule or keep marker
+}
+
+// ============================================
+// Link Parsing & Conversion
+// ============================================
+
+export interface ParsedImageLink {
+  link: string;                    // Link target as written in the note
+  isWikilink: boolean;
+  fullMatch: string;               // Full embed text, e.g. "![[a.png|300]]"
+  alias: string;                   // Wikilink alias or markdown alt text (may carry a size)
+  start: number;                   // Offset of the embed in the note
+  end: number;
+  path: string;                    // Decoded target path without subpath
+  subpath: string;                 // "#heading" or "^block" part, if any
+  targetStart: number;             // Offsets of the path part as written (inside angle brackets)
+  targetEnd: number;
+  title: string;                   // Markdown link title including quotes, e.g. "\"Figure 1\""
+  angleBrackets: boolean;          // Markdown destination written as <path>
+  encoded: boolean;                // Markdown destination uses %XX escapes
+}
+
+export interface HtmlImageRef {
+  tag: 'img' | 'source';
+  attribute: 'src' | 'srcset';
+  raw: string;                     // URL as written in the attribute
+  path: string;                    // Decoded URL
+  start: number;                   // Offsets of the URL in the note
+  end: number;
+  encoded: boolean;                // URL uses %XX escapes
+}
+
+// Where a reference that is not in metadataCache.resolvedLinks comes from
+export type ReferenceKind = 'html' | 'frontmatter' | 'canvas';
+
+export interface IndexedReference {
+  imagePath: string;
+  kind: ReferenceKind;
+  property?: string;               // Frontmatter property holding the reference
+}
+
+export interface BrokenImageLink {
+  notePath: string;
+  link: ParsedImageLink;
+  targetPath: string;              // Vault path the link points to (missing)
+  line: number;                    // 0-based line of the embed in the note
+}
+
+export type RepairReason = 'hash' | 'name' | 'similar';
+
+export interface RepairCandidate {
+  path: string;
+  reason: RepairReason;
+  score: number;                   // Higher is a better match
+}
+
+export interface LinkConversionPlan {
+  notePath: string;
+  changes: Array<{ from: string; to: string }>;
+  unresolved: string[];            // Embeds whose target could not be resolved (left untouched)
 }
 
 // ============================================
@@ -140,14 +262,128 @@ export interface HashCache {
   [path: string]: {
     hash: string;
     mtime: number;                 // Last modified time when hash was calculated
+    size?: number;                 // File size when hash was calculated
+    phash?: string;                // Perceptual hash, '' if the image can't be decoded
   };
 }
 
+export interface HashCacheFile {
+  version: number;                 // Schema version; files from other versions are discarded
+  entries: HashCache;
+  tombstones?: Record<string, string>; // Former path -> hash of removed or moved images
+  phashVersion?: number;           // Perceptual hash algorithm the phash values were made with
+}
+
+// ============================================
+// Orphan Registry
+// ============================================
+
+export interface OrphanRegistry {
+  [path: string]: {
+    since: number;                 // When the image was first found unreferenced
+  };
+}
+
+// ============================================
+// Counter State
+// ============================================
+
+export interface CounterState {
+  [scope: string]: number;         // "{folder}/{template}" -> last used {counter} value
+}
+
+// ============================================
+// Operation Plans
+// ============================================
+
+export type PlanStepType = 'createFolder' | 'rename' | 'rewriteNote' | 'delete';
+
+export interface PlanStep {
+  type: PlanStepType;
+  path: string;                    // Folder to create, file to move, note to rewrite or folder to delete
+  newPath?: string;                // Target path of a rename
+  oldImagePath?: string;           // Image move a note rewrite belongs to
+  newImagePath?: string;
+  conflict?: string;               // Why the step will be skipped
+}
+
+export interface OperationPlan {
+  title: string;
+  steps: PlanStep[];
+}
+
+export type StepStatus = 'applied' | 'skipped' | 'failed';
+
+export interface StepResult {
+  step: PlanStep;
+  status: StepStatus;
+  message?: string;                // Reason for skipped/failed steps
+}
+
+// ============================================
+// Operation Journal
+// ============================================
+
+export type JournalAction =
+  | { type: 'rename'; from: string; to: string }
+  | { type: 'createFolder'; path: string }
+  | { type: 'deleteFolder'; path: string }
+  // before/after: text around the change, checked before undoing it
+  | { type: 'modify'; path: string; offset: number; removed: string; inserted: string; before?: string; after?: string }
+  | { type: 'trash'; path: string; trashId: string };
+
+export interface JournalEntry {
+  id: string;
+  title: string;
+  timestamp: number;
+  actions: JournalAction[];        // In the order they were applied
+  undoneAt?: number;
+}
+
+// ============================================
+// Trash
+// ============================================
+
+export interface TrashedImage {
+  id: string;
+  originalPath: string;
+  trashPath: string;               // Copy under .image-master/trash
+  hash: string | null;
+  size: number;
+  deletedAt: number;
+  referencedBy: string[];          // Notes that last referenced the image
+}
+
+// ============================================
+// Duplicates
+// ============================================
+
+export interface DuplicateGroup {
+  hash: string;                    // Content hash; for similar groups, the first path
+  paths: string[];                 // Byte-identical (or visually similar) images
+  maxDistance?: number;            // Similar groups: max perceptual-hash distance between keeper and copies
+}
+
+export type DuplicateMode = 'exact' | 'similar';
+
+export interface SimilarImage {
+  path: string;
+  distance: number;                // Perceptual-hash bit distance to the compared image
+}
+
+export type KeeperRule =
+  | 'shortestPath'       // Keep the copy with the shortest path
+  | 'storageLocation'    // Keep the copy where the storage settings would put it
+  | 'mostReferenced';    // Keep the copy used by the most notes
+
 // ============================================
 // Gallery View Types
 // ============================================
 
-export type GalleryFilter = 'all' | 'inUse' | 'orphan';
+// Drag data type carrying the vault path of an image dragged out of the gallery
+export const GALLERY_IMAGE_DRAG_TYPE = 'application/x-imagemaster-image';
+
+export type GalleryFilter = 'all' | 'inUse' | 'orphan' | 'duplicates' | 'trash';
 export type ViewMode = 'grid' | 'list';
 export type SortField = 'name' | 'size' | 'created' | 'modified' | 'path';
 export type SortOrder = 'asc' | 'desc';
@@ -170,6 +406,11 @@ export interface SortConfig {
   order: SortOrder;
 }
 
+// Whole days elapsed since a timestamp
+export function daysSince(timestamp: number): number {
+  return Math.max(0, Math.floor((Date.now() - timestamp) / (24 * 60 * 60 * 1000)));
+}
+
 // Sort images based on field and order
 export function sortImages(images: ImageInfo[], sortBy: SortField, sortOrder: SortOrder): ImageInfo[] {
   return [...images].sort((a, b) => {
@@ -234,6 +475,34 @@ export function isImageFile(filename: string): boolean {
   return ext ? SUPPORTED_IMAGE_EXTENSIONS.includes(ext as SupportedImageExtension) : false;
 }
 
+// ============================================
+// Glob Matching
+// ============================================
+
+/**
+ * Match a vault path against a glob: "**" spans folders, "*" and "?" stay within one segment.
+ * A glob without wildcards matches the folder itself and everything below it.
+ */
+export function matchGlob(path: string, glob: string): boolean {
+  const pattern = glob.trim().replace(/^\/+|\/+$/g, '');
+  if (!pattern) return false;
+
+  if (!/[*?]/.test(pattern)) {
+    return path === pattern || path.startsWith(pattern + '/');
+  }
+
+  const source = pattern
+    .split('**')
+    .map((part) =>
+      part
+        .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+        .replace(/\*/g, '[^/]*')
+        .replace(/\?/g, '[^/]')
+    )
+    .join('.*');
+  return new RegExp(`^${source}$`).test(path);
+}
+
 // ============================================
 // Pattern Variables
 // ============================================
@@ -250,5 +519,19 @@ export interface PatternVariables {
   hash: string;         // 8-char SHA-256
   note: string;         // Current note name
   folder: string;       // Current note folder name
-  counter: number;      // Auto-increment counter
+  counter: number;      // Per-folder sequence number ({counter} or zero-padded {counter:N})
+}
+
+export interface LinkTemplateVariables {
+  path: string;         // Image path from vault root
+  name: string;         // Image filename with extension
+  relpath: string;      // Image path relative to the note
+  alt: string;          // Image filename without extension
+  width: string;        // Display width, empty when not set
+  note: string;         // Current note name
+}
+
+export interface PathTemplateVariables extends PatternVariables {
+  noteFolder: string;   // Full folder path of the current note
+  notePath: string;     // Full path of the current note without extension
 }
@@ -0,0 +1,50 @@
+import { ItemView, WorkspaceLeaf } from 'obsidian';
+import * as React from 'react';
+import { createRoot, Root } from 'react-dom/client';
+import ImageMasterPlugin from '../main';
+import { BrokenLinksContainer } from './components/BrokenLinksContainer';
+import { t } from '../i18n';
+
+export const BROKEN_LINKS_VIEW_TYPE = 'image-master-broken-links';
+
+export class BrokenLinksView extends ItemView {
+  plugin: ImageMasterPlugin;
+  private root: Root | null = null;
+
+  constructor(leaf: WorkspaceLeaf, plugin: ImageMasterPlugin) {
+    super(leaf);
+    this.plugin = plugin;
+  }
+
+  getViewType(): string {
+    return BROKEN_LINKS_VIEW_TYPE;
+  }
+
+  getDisplayText(): string {
+    return t('broken.title');
+  }
+
+  getIcon(): string {
+    return 'image-off';
+  }
+
+  async onOpen(): Promise<void> {
+    const container = this.containerEl.children[1];
+    container.empty();
+    container.addClass('image-master-broken-links-container');
+
+    this.root = createRoot(container);
+    this.root.render(
+      <React.StrictMode>
+        <BrokenLinksContainer plugin={this.plugin} />
+      </React.StrictMode>
+    );
+  }
+
+  async onClose(): Promise<void> {
+    if (this.root) {
+      this.root.unmount();
+      this.root = null;
+    }
+  }
+}
@@ -20,6 +20,7 @@ export const ActionToolbar: React.FC<ActionToolbarProps> = ({
   const selectedCount = selectedImages.length;
   const orphanCount = selectedImages.filter((img) => img.isOrphan).length;
   const inUseCount = selectedCount - orphanCount;
+  const deletableCount = selectedImages.filter((img) => img.isOrphan && !img.isProtected).length;
 
   if (selectedCount === 0) {
     return null;
@@ -55,8 +56,8 @@ export const ActionToolbar: React.FC<ActionToolbarProps> = ({
         <button
           className="action-btn action-btn-danger"
           onClick={onDelete}
-          disabled={isDeleting || orphanCount === 0}
-          title={orphanCount === 0 ? t('action.deleteOrphanOnly') : t('action.deleteOrphanTitle', { count: orphanCount })}
+          disabled={isDeleting || deletableCount === 0}
+          title={deletableCount === 0 ? t('action.deleteOrphanOnly') : t('action.deleteOrphanTitle', { count: deletableCount })}
         >
           {isDeleting ? (
             <span className="loading-spinner" />
@@ -76,7 +77,7 @@ export const ActionToolbar: React.FC<ActionToolbarProps> = ({
               <path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2" />
             </svg>
           )}
-          {orphanCount > 0 ? t('action.deleteCount', { count: orphanCount }) : t('action.delete')}
+          {deletableCount > 0 ? t('action.deleteCount', { count: deletableCount }) : t('action.delete')}
         </button>
 
         <button
@@ -0,0 +1,193 @@
+import * as React from 'react';
+import { useState, useEffect, useMemo } from 'react';
+import { Notice, TFile } from 'obsidian';
+import ImageMasterPlugin from '../../main';
+import { BrokenImageLink, JournalEntry, RepairCandidate, RepairReason } from '../../types';
+import { t } from '../../i18n';
+
+const REASON_LABELS: Record<RepairReason, () => string> = {
+  hash: () => t('broken.reason.hash'),
+  name: () => t('broken.reason.name'),
+  similar: () => t('broken.reason.similar'),
+};
+
+interface BrokenLinksContainerProps {
+  plugin: ImageMasterPlugin;
+}
+
+interface BrokenLinkRow {
+  key: string;
+  broken: BrokenImageLink;
+  candidates: RepairCandidate[];
+  selected: string;                // Chosen candidate path ('' = none)
+}
+
+export const BrokenLinksContainer: React.FC<BrokenLinksContainerProps> = ({ plugin }) => {
+  const [rows, setRows] = useState<BrokenLinkRow[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isBusy, setIsBusy] = useState(false);
+
+  useEffect(() => {
+    scan();
+  }, []);
+
+  const scan = async () => {
+    setIsLoading(true);
+    try {
+      const broken = await plugin.brokenLinkDetector.scanBrokenLinks();
+      setRows(
+        broken.map((item) => {
+          const candidates = plugin.brokenLinkDetector.findCandidates(item);
+          return {
+            key: `${item.notePath}:${item.link.start}`,
+            broken: item,
+            candidates,
+            selected: candidates[0]?.path ?? '',
+          };
+        })
+      );
+    } catch (error) {
+      console.error('Failed to scan broken image links:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const fixableRows = useMemo(() => rows.filter((row) => row.selected), [rows]);
+  const unfixableRows = useMemo(() => rows.filter((row) => row.candidates.length === 0), [rows]);
+
+  const setSelected = (key: string, path: string) => {
+    setRows((prev) => prev.map((row) => (row.key === key ? { ...row, selected: path } : row)));
+  };
+
+  // Run an action on some rows, then rescan since offsets in edited notes have shifted
+  const runOnRows = async (
+    targetRows: BrokenLinkRow[],
+    action: (row: BrokenLinkRow, entry: JournalEntry) => Promise<boolean>
+  ): Promise<number> => {
+    setIsBusy(true);
+    let count = 0;
+    const entry = plugin.journal.begin(t('journal.title.repairLinks', { count: targetRows.length }));
+    try {
+      for (const row of targetRows) {
+        try {
+          if (await action(row, entry)) count++;
+        } catch (error) {
+          console.error(`Failed to repair link in ${row.broken.notePath}:`, error);
+        }
+      }
+    } finally {
+      await plugin.journal.commit(entry);
+      setIsBusy(false);
+    }
+    await scan();
+    return count;
+  };
+
+  const handleFix = async (rowsToFix: BrokenLinkRow[]) => {
+    const count = await runOnRows(rowsToFix, (row, entry) =>
+      plugin.brokenLinkDetector.fixLink(row.broken, row.selected, entry)
+    );
+    new Notice(t('notice.brokenLinksFixed', { count }));
+  };
+
+  const handleRemove = async (rowsToRemove: BrokenLinkRow[], mode: 'remove' | 'comment') => {
+    if (rowsToRemove.length > 1 && !confirm(t('confirm.removeBrokenLinks', { count: rowsToRemove.length }))) {
+      return;
+    }
+    const count = await runOnRows(rowsToRemove, (row, entry) =>
+      plugin.brokenLinkDetector.removeLink(row.broken, mode, entry)
+    );
+    new Notice(
+      mode === 'comment'
+        ? t('notice.brokenLinksCommented', { count })
+        : t('notice.brokenLinksRemoved', { count })
+    );
+  };
+
+  const handleOpenNote = (row: BrokenLinkRow) => {
+    const file = plugin.app.vault.getAbstractFileByPath(row.broken.notePath);
+    if (file && file instanceof TFile) {
+      plugin.app.workspace.getLeaf().openFile(file, { eState: { line: row.broken.line } });
+    }
+  };
+
+  return (
+    <div className="image-master-broken-links">
+      <div className="gallery-header">
+        <h4>{t('broken.title')}</h4>
+        <div className="gallery-header-actions">
+          <button onClick={scan} disabled={isLoading || isBusy}>
+            {t('broken.rescan')}
+          </button>
+        </div>
+      </div>
+
+      {!isLoading && rows.length > 0 && (
+        <div className="broken-links-toolbar">
+          <span className="broken-links-summary">
+            {t('broken.summary', { count: rows.length, fixable: fixableRows.length })}
+          </span>
+          <button className="mod-cta" onClick={() => handleFix(fixableRows)} disabled={isBusy || fixableRows.length === 0}>
+            {t('broken.fixAll', { count: fixableRows.length })}
+          </button>
+          <button
+            onClick={() => handleRemove(unfixableRows, 'comment')}
+            disabled={isBusy || unfixableRows.length === 0}
+          >
+            {t('broken.commentUnfixable', { count: unfixableRows.length })}
+          </button>
+        </div>
+      )}
+
+      <div className="gallery-content">
+        {isLoading ? (
+          <div className="gallery-loading">{t('broken.scanning')}</div>
+        ) : rows.length === 0 ? (
+          <div className="gallery-empty">{t('broken.empty')}</div>
+        ) : (
+          <div className="broken-links-list">
+            {rows.map((row) => (
+              <div key={row.key} className="broken-link-item">
+                <div className="broken-link-header">
+                  <button className="broken-link-note" onClick={() => handleOpenNote(row)} title={row.broken.notePath}>
+                    {row.broken.notePath}
+                  </button>
+                  <code className="broken-link-text">{row.broken.link.fullMatch}</code>
+                </div>
+                <div className="broken-link-actions">
+                  {row.candidates.length > 0 ? (
+                    <select
+                      className="dropdown"
+                      value={row.selected}
+                      onChange={(e) => setSelected(row.key, e.target.value)}
+                      disabled={isBusy}
+                    >
+                      {row.candidates.map((candidate) => (
+                        <option key={candidate.path} value={candidate.path}>
+                          {`${candidate.path} (${REASON_LABELS[candidate.reason]()})`}
+                        </option>
+                      ))}
+                      <option value="">{t('broken.noCandidate')}</option>
+                    </select>
+                  ) : (
+                    <span className="broken-link-none">{t('broken.noCandidates')}</span>
+                  )}
+                  <button onClick={() => handleFix([row])} disabled={isBusy || !row.selected}>
+                    {t('broken.fix')}
+                  </button>
+                  <button onClick={() => handleRemove([row], 'comment')} disabled={isBusy}>
+                    {t('broken.comment')}
+                  </button>
+                  <button className="mod-warning" onClick={() => handleRemove([row], 'remove')} disabled={isBusy}>
+                    {t('broken.remove')}
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
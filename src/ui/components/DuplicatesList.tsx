@@ -0,0 +1,161 @@
+import * as React from 'react';
+import { useState, useEffect } from 'react';
+import { DuplicateGroup, ImageInfo, KeeperRule } from '../../types';
+import { t } from '../../i18n';
+
+interface DuplicatesListProps {
+  groups: DuplicateGroup[];
+  similar: boolean;                 // Groups are visually similar rather than identical
+  getImageInfo: (path: string) => ImageInfo | undefined;
+  getResourcePath: (path: string) => string;
+  pickKeeper: (group: DuplicateGroup, rule: KeeperRule) => Promise<string>;
+  canMerge: (group: DuplicateGroup, keeper: string) => boolean;
+  onMerge: (merges: Array<{ group: DuplicateGroup; keeper: string }>) => Promise<void>;
+  onOpenNote: (notePath: string) => void;
+  isBusy: boolean;
+}
+
+const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+export const DuplicatesList: React.FC<DuplicatesListProps> = ({
+  groups,
+  similar,
+  getImageInfo,
+  getResourcePath,
+  pickKeeper,
+  canMerge,
+  onMerge,
+  onOpenNote,
+  isBusy,
+}) => {
+  const [rule, setRule] = useState<KeeperRule>('shortestPath');
+  const [keepers, setKeepers] = useState<Record<string, string>>({});
+
+  // Re-pick keepers whenever the groups or the rule change
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      const picked: Record<string, string> = {};
+      for (const group of groups) {
+        picked[group.hash] = await pickKeeper(group, rule);
+      }
+      if (!cancelled) setKeepers(picked);
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [groups, rule]);
+
+  const setKeeper = (hash: string, path: string) => {
+    setKeepers((prev) => ({ ...prev, [hash]: path }));
+  };
+
+  const mergesFor = (targetGroups: DuplicateGroup[]) =>
+    targetGroups
+      .filter((group) => keepers[group.hash] && canMerge(group, keepers[group.hash]))
+      .map((group) => ({ group, keeper: keepers[group.hash] }));
+
+  if (groups.length === 0) {
+    return <div className="gallery-empty">{t('duplicates.empty')}</div>;
+  }
+
+  const redundantCount = groups.reduce((sum, group) => sum + group.paths.length - 1, 0);
+
+  return (
+    <div className="duplicates-container">
+      <div className="duplicates-toolbar">
+        <span className="duplicates-summary">
+          {t('duplicates.summary', { groups: groups.length, count: redundantCount })}
+        </span>
+        <label className="duplicates-rule">
+          {t('duplicates.keeperRule')}
+          <select
+            className="dropdown"
+            value={rule}
+            onChange={(e) => setRule(e.target.value as KeeperRule)}
+            disabled={isBusy}
+          >
+            <option value="shortestPath">{t('duplicates.rule.shortestPath')}</option>
+            <option value="storageLocation">{t('duplicates.rule.storageLocation')}</option>
+            <option value="mostReferenced">{t('duplicates.rule.mostReferenced')}</option>
+          </select>
+        </label>
+        <button className="mod-cta" onClick={() => onMerge(mergesFor(groups))} disabled={isBusy}>
+          {t('duplicates.mergeAll', { count: groups.length })}
+        </button>
+      </div>
+
+      <div className="duplicates-list">
+        {groups.map((group) => {
+          const size = similar ? undefined : getImageInfo(group.paths[0])?.size;
+          return (
+            <div key={group.hash} className="duplicate-group">
+              <div className="duplicate-group-header">
+                <span>
+                  {t(similar ? 'duplicates.similarGroupTitle' : 'duplicates.groupTitle', { count: group.paths.length })}
+                  {size !== undefined && ` · ${formatFileSize(size)}`}
+                </span>
+                <button
+                  onClick={() => onMerge(mergesFor([group]))}
+                  disabled={isBusy || !keepers[group.hash] || !canMerge(group, keepers[group.hash])}
+                >
+                  {t('duplicates.merge')}
+                </button>
+              </div>
+              <div className="duplicate-group-images">
+                {group.paths.map((path) => {
+                  const info = getImageInfo(path);
+                  const referencedBy = info?.referencedBy ?? [];
+                  const isKeeper = keepers[group.hash] === path;
+                  const canKeep = canMerge(group, path);
+                  return (
+                    <label
+                      key={path}
+                      className={`duplicate-image ${isKeeper ? 'is-keeper' : ''}`}
+                      title={canKeep ? undefined : t('duplicates.tooDifferent')}
+                    >
+                      <img src={getResourcePath(path)} alt={path} loading="lazy" />
+                      <div className="duplicate-image-keeper">
+                        <input
+                          type="radio"
+                          name={`keeper-${group.hash}`}
+                          checked={isKeeper}
+                          onChange={() => setKeeper(group.hash, path)}
+                          disabled={isBusy || !canKeep}
+                        />
+                        {isKeeper ? t('duplicates.keep') : t('duplicates.remove')}
+                      </div>
+                      <div className="duplicate-image-path" title={path}>
+                        {path}
+                      </div>
+                      <div className="duplicate-image-refs">
+                        {referencedBy.length === 0
+                          ? t('duplicates.unused')
+                          : referencedBy.map((notePath) => (
+                              <a
+                                key={notePath}
+                                onClick={(e) => {
+                                  e.preventDefault();
+                                  onOpenNote(notePath);
+                                }}
+                                title={notePath}
+                              >
+                                {notePath.split('/').pop()}
+                              </a>
+                            ))}
+                      </div>
+                    </label>
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
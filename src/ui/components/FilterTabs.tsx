@@ -9,6 +9,9 @@ interface FilterTabsProps {
     all: number;
     inUse: number;
     orphan: number;
+    protected: number;               // Orphans kept by exclusion rules
+    duplicates: number | null;       // Null until the duplicates have been scanned
+    trash: number;
   };
 }
 
@@ -17,10 +20,16 @@ export const FilterTabs: React.FC<FilterTabsProps> = ({
   onFilterChange,
   counts,
 }) => {
-  const tabs: Array<{ id: GalleryFilter; labelKey: 'filter.all' | 'filter.inUse' | 'filter.orphan'; count: number }> = [
+  const tabs: Array<{
+    id: GalleryFilter;
+    labelKey: 'filter.all' | 'filter.inUse' | 'filter.orphan' | 'filter.duplicates' | 'filter.trash';
+    count: number | null;
+  }> = [
     { id: 'all', labelKey: 'filter.all', count: counts.all },
     { id: 'inUse', labelKey: 'filter.inUse', count: counts.inUse },
     { id: 'orphan', labelKey: 'filter.orphan', count: counts.orphan },
+    { id: 'duplicates', labelKey: 'filter.duplicates', count: counts.duplicates },
+    { id: 'trash', labelKey: 'filter.trash', count: counts.trash },
   ];
 
   return (
@@ -36,15 +45,22 @@ export const FilterTabs: React.FC<FilterTabsProps> = ({
           className={`filter-tab ${filter === tab.id ? 'active' : ''}`}
         >
           <span style={styles.label}>{t(tab.labelKey)}</span>
-          <span
-            style={{
-              ...styles.count,
-              ...(filter === tab.id ? styles.activeCount : {}),
-              ...(tab.id === 'orphan' && tab.count > 0 ? styles.orphanCount : {}),
-            }}
-          >
-            {tab.count}
-          </span>
+          {tab.count !== null && (
+            <span
+              style={{
+                ...styles.count,
+                ...(filter === tab.id ? styles.activeCount : {}),
+                ...(tab.id === 'orphan' && tab.count > 0 ? styles.orphanCount : {}),
+              }}
+            >
+              {tab.count}
+            </span>
+          )}
+          {tab.id === 'orphan' && counts.protected > 0 && (
+            <span style={styles.protectedCount} title={t('filter.protectedTooltip', { count: counts.protected })}>
+              {t('filter.protected', { count: counts.protected })}
+            </span>
+          )}
         </button>
       ))}
     </div>
@@ -91,4 +107,12 @@ const styles: { [key: string]: React.CSSProperties } = {
     background: 'var(--text-error)',
     color: 'white',
   },
+  protectedCount: {
+    background: 'var(--interactive-accent)',
+    color: 'var(--text-on-accent)',
+    padding: '2px 6px',
+    borderRadius: '10px',
+    fontSize: '11px',
+    fontWeight: 500,
+  },
 };
@@ -1,9 +1,21 @@
 import * as React from 'react';
 import { useState, useEffect, useCallback, useMemo } from 'react';
-import { Notice } from 'obsidian';
+import { Notice, TFile } from 'obsidian';
 import ImageMasterPlugin from '../../main';
 import { selectFolder } from '../modals/FolderSuggestModal';
-import { ImageInfo, GalleryFilter, ViewMode, SortField, SortOrder, sortImages } from '../../types';
+import {
+  ImageInfo,
+  GalleryFilter,
+  ViewMode,
+  SortField,
+  SortOrder,
+  TrashedImage,
+  DuplicateGroup,
+  DuplicateMode,
+  KeeperRule,
+  GALLERY_IMAGE_DRAG_TYPE,
+  sortImages,
+} from '../../types';
 import { ImageGrid } from './ImageGrid';
 import { ImageList } from './ImageList';
 import { InfoPanel } from './InfoPanel';
@@ -11,6 +23,9 @@ import { FilterTabs } from './FilterTabs';
 import { ActionToolbar } from './ActionToolbar';
 import { ViewModeToggle } from './ViewModeToggle';
 import { SortDropdown } from './SortDropdown';
+import { TrashList } from './TrashList';
+import { DuplicatesList } from './DuplicatesList';
+import { MAX_SIMILARITY_DISTANCE } from '../../core/PerceptualHash';
 import { t } from '../../i18n';
 
 interface GalleryContainerProps {
@@ -20,6 +35,10 @@ interface GalleryContainerProps {
 export const GalleryContainer: React.FC<GalleryContainerProps> = ({ plugin }) => {
   // Image data
   const [images, setImages] = useState<ImageInfo[]>([]);
+  const [trashItems, setTrashItems] = useState<TrashedImage[]>([]);
+  const [duplicateGroups, setDuplicateGroups] = useState<DuplicateGroup[] | null>(null); // null = not scanned yet
+  const [duplicateMode, setDuplicateMode] = useState<DuplicateMode>('exact');
+  const [similarityThreshold, setSimilarityThreshold] = useState(plugin.settings.similarityThreshold);
   const [isLoading, setIsLoading] = useState(true);
 
   // View state
@@ -36,6 +55,9 @@ export const GalleryContainer: React.FC<GalleryContainerProps> = ({ plugin }) =>
 
   // Action state
   const [isDeleting, setIsDeleting] = useState(false);
+  const [isTrashBusy, setIsTrashBusy] = useState(false);
+  const [isScanningDuplicates, setIsScanningDuplicates] = useState(false);
+  const [isMerging, setIsMerging] = useState(false);
 
   // Load images on mount
   useEffect(() => {
@@ -72,6 +94,7 @@ export const GalleryContainer: React.FC<GalleryContainerProps> = ({ plugin }) =>
     try {
       const imageInfos = await plugin.orphanDetector.getAllImageInfos();
       setImages(imageInfos);
+      setTrashItems(plugin.trashService.getItems());
     } catch (error) {
       console.error('Failed to load images:', error);
     } finally {
@@ -79,6 +102,22 @@ export const GalleryContainer: React.FC<GalleryContainerProps> = ({ plugin }) =>
     }
   };
 
+  // Duplicate groups are hashed on demand, the first time the tab is opened
+  const scanDuplicates = async (mode: DuplicateMode, threshold: number) => {
+    setIsScanningDuplicates(true);
+    try {
+      setDuplicateGroups(
+        mode === 'similar'
+          ? await plugin.duplicateManager.findSimilarGroups(threshold)
+          : await plugin.duplicateManager.findDuplicateGroups()
+      );
+    } catch (error) {
+      console.error('Failed to find duplicate images:', error);
+    } finally {
+      setIsScanningDuplicates(false);
+    }
+  };
+
   // Filter and sort images
   const filteredImages = useMemo(() => {
     let result = images;
@@ -91,6 +130,10 @@ export const GalleryContainer: React.FC<GalleryContainerProps> = ({ plugin }) =>
       case 'orphan':
         result = result.filter((img) => img.isOrphan);
         break;
+      case 'duplicates':
+      case 'trash':
+        result = []; // Duplicate groups and trashed images are listed separately
+        break;
     }
 
     // Apply search
@@ -109,6 +152,20 @@ export const GalleryContainer: React.FC<GalleryContainerProps> = ({ plugin }) =>
     return result;
   }, [images, filter, searchQuery, sortField, sortOrder]);
 
+  const filteredTrashItems = useMemo(() => {
+    if (!searchQuery) return trashItems;
+    const query = searchQuery.toLowerCase();
+    return trashItems.filter((item) => item.originalPath.toLowerCase().includes(query));
+  }, [trashItems, searchQuery]);
+
+  const filteredDuplicateGroups = useMemo(() => {
+    if (!duplicateGroups || !searchQuery) return duplicateGroups ?? [];
+    const query = searchQuery.toLowerCase();
+    return duplicateGroups.filter((group) => group.paths.some((path) => path.toLowerCase().includes(query)));
+  }, [duplicateGroups, searchQuery]);
+
+  const imagesByPath = useMemo(() => new Map(images.map((img) => [img.path, img])), [images]);
+
   // Get selected images info
   const selectedImages = useMemo(() => {
     return filteredImages.filter((img) => selectedPaths.has(img.path));
@@ -148,8 +205,13 @@ export const GalleryContainer: React.FC<GalleryContainerProps> = ({ plugin }) =>
       }
 
       setFocusedImage(image);
+
+      // Measure ahead of time so a drag link can include the pixel width
+      if (plugin.settings.linkWidthFromImage) {
+        plugin.fileManager.getImageWidth(image.path);
+      }
     },
-    [selectedPaths, lastSelectedIndex, filteredImages]
+    [selectedPaths, lastSelectedIndex, filteredImages, plugin]
   );
 
   const handleImageDoubleClick = useCallback(
@@ -177,7 +239,7 @@ export const GalleryContainer: React.FC<GalleryContainerProps> = ({ plugin }) =>
   // Bulk delete handler
   const handleBulkDelete = useCallback(async () => {
     const orphanPaths = selectedImages
-      .filter((img) => img.isOrphan)
+      .filter((img) => img.isOrphan && !img.isProtected)
       .map((img) => img.path);
 
     if (orphanPaths.length === 0) {
@@ -204,6 +266,7 @@ export const GalleryContainer: React.FC<GalleryContainerProps> = ({ plugin }) =>
           orphanPaths.forEach((path) => newSelection.delete(path));
           return newSelection;
         });
+        setTrashItems(plugin.trashService.getItems());
         new Notice(t('notice.deleted', { count: deleted }));
       }
     } catch (error) {
@@ -224,28 +287,27 @@ export const GalleryContainer: React.FC<GalleryContainerProps> = ({ plugin }) =>
     if (pathsToMove.length === 0) return;
 
     try {
-      let movedCount = 0;
-      for (const imagePath of pathsToMove) {
-        const file = plugin.app.vault.getAbstractFileByPath(imagePath);
-        if (file) {
-          const fileName = imagePath.split('/').pop() || '';
-          const newPath = `${targetFolder}/${fileName}`;
-
-          // Ensure folder exists
-          if (!plugin.app.vault.getAbstractFileByPath(targetFolder)) {
-            await plugin.app.vault.createFolder(targetFolder);
-          }
+      const moves = pathsToMove.map((imagePath) => ({
+        from: imagePath,
+        to: `${targetFolder}/${imagePath.split('/').pop() || ''}`,
+      }));
+      const plan = plugin.operationPlanner.planMoves(
+        t('plan.title.bulkMove', { count: moves.length, folder: targetFolder }),
+        moves
+      );
 
-          await plugin.app.vault.rename(file, newPath);
-          movedCount++;
-        }
-      }
+      const results = await plugin.operationPlanner.confirmAndExecute(plan);
+      if (!results) return;
 
+      const movedCount = results.filter((r) => r.step.type === 'rename' && r.status === 'applied').length;
       if (movedCount > 0) {
         new Notice(t('notice.moved', { count: movedCount, folder: targetFolder }));
         loadImages(); // Refresh
         deselectAll();
       }
+      if (results.some((r) => r.status === 'failed')) {
+        new Notice(t('notice.failedToMove'));
+      }
     } catch (error) {
       console.error('Failed to move images:', error);
       new Notice(t('notice.failedToMove'));
@@ -270,11 +332,126 @@ export const GalleryContainer: React.FC<GalleryContainerProps> = ({ plugin }) =>
         if (focusedImage?.path === imagePath) {
           setFocusedImage(null);
         }
+        setTrashItems(plugin.trashService.getItems());
       }
     },
     [plugin, focusedImage]
   );
 
+  // Trash handlers
+  const handleRestore = useCallback(
+    async (items: TrashedImage[]) => {
+      setIsTrashBusy(true);
+      let restored = 0;
+      try {
+        for (const item of items) {
+          try {
+            if (await plugin.trashService.restore(item.id)) restored++;
+          } catch (error) {
+            console.error(`Failed to restore ${item.originalPath}:`, error);
+          }
+        }
+      } finally {
+        setIsTrashBusy(false);
+      }
+      new Notice(t('notice.restored', { count: restored }));
+      loadImages();
+    },
+    [plugin]
+  );
+
+  const handlePurge = useCallback(
+    async (items: TrashedImage[]) => {
+      if (!confirm(t('confirm.purge', { count: items.length }))) {
+        return;
+      }
+
+      setIsTrashBusy(true);
+      try {
+        const purged = await plugin.trashService.purge(items.map((item) => item.id));
+        new Notice(t('notice.purged', { count: purged }));
+      } finally {
+        setIsTrashBusy(false);
+        setTrashItems(plugin.trashService.getItems());
+      }
+    },
+    [plugin]
+  );
+
+  // Duplicate handlers
+  const handleMerge = useCallback(
+    async (merges: Array<{ group: DuplicateGroup; keeper: string }>) => {
+      const count = merges.reduce((sum, { group }) => sum + group.paths.length - 1, 0);
+      if (count === 0 || !confirm(t('confirm.mergeDuplicates', { count }))) {
+        return;
+      }
+
+      setIsMerging(true);
+      let removed = 0;
+      try {
+        for (const { group, keeper } of merges) {
+          removed += await plugin.duplicateManager.merge(group, keeper);
+        }
+      } catch (error) {
+        console.error('Failed to merge duplicate images:', error);
+      } finally {
+        setIsMerging(false);
+      }
+
+      new Notice(t('notice.merged', { count: removed }));
+      await loadImages();
+      await scanDuplicates(duplicateMode, similarityThreshold);
+    },
+    [plugin, duplicateMode, similarityThreshold]
+  );
+
+  const handleDuplicateModeChange = useCallback(
+    (mode: DuplicateMode) => {
+      setDuplicateMode(mode);
+      scanDuplicates(mode, similarityThreshold);
+    },
+    [similarityThreshold]
+  );
+
+  // Rescan similar groups once the threshold slider settles
+  useEffect(() => {
+    if (duplicateMode !== 'similar') return;
+    const timer = window.setTimeout(() => scanDuplicates('similar', similarityThreshold), 300);
+    return () => window.clearTimeout(timer);
+  }, [similarityThreshold]);
+
+  const pickKeeper = useCallback(
+    (group: DuplicateGroup, rule: KeeperRule) => plugin.duplicateManager.pickKeeper(group, rule),
+    [plugin]
+  );
+
+  const canMerge = useCallback(
+    (group: DuplicateGroup, keeper: string) => plugin.duplicateManager.canMerge(group, keeper),
+    [plugin]
+  );
+
+  const getImageInfo = useCallback((path: string) => imagesByPath.get(path), [imagesByPath]);
+
+  const handleOpenNote = useCallback(
+    (notePath: string) => {
+      const file = plugin.app.vault.getAbstractFileByPath(notePath);
+      if (file instanceof TFile) {
+        plugin.app.workspace.getLeaf().openFile(file);
+      }
+    },
+    [plugin]
+  );
+
+  const getTrashResourcePath = useCallback(
+    (item: TrashedImage) => plugin.trashService.getResourcePath(item),
+    [plugin]
+  );
+
+  const getTrashDaysLeft = useCallback(
+    (item: TrashedImage) => plugin.trashService.getDaysLeft(item),
+    [plugin]
+  );
+
   // Drag handler
   const handleDragStart = useCallback(
     (e: React.DragEvent, image: ImageInfo) => {
@@ -282,7 +459,9 @@ export const GalleryContainer: React.FC<GalleryContainerProps> = ({ plugin }) =>
         image.path,
         plugin.app.workspace.getActiveFile()!
       );
+      // Plain-text link for other drop targets; editors insert the link via the path instead
       e.dataTransfer.setData('text/plain', link);
+      e.dataTransfer.setData(GALLERY_IMAGE_DRAG_TYPE, image.path);
       e.dataTransfer.effectAllowed = 'copy';
     },
     [plugin]
@@ -310,11 +489,28 @@ export const GalleryContainer: React.FC<GalleryContainerProps> = ({ plugin }) =>
     [plugin]
   );
 
+  // Filter handler; image selection doesn't carry over to the duplicates and trash lists
+  const handleFilterChange = useCallback((newFilter: GalleryFilter) => {
+    setFilter(newFilter);
+    if (newFilter === 'duplicates' || newFilter === 'trash') {
+      deselectAll();
+      setFocusedImage(null);
+    }
+    if (newFilter === 'duplicates' && duplicateGroups === null && !isScanningDuplicates) {
+      scanDuplicates(duplicateMode, similarityThreshold);
+    }
+  }, [duplicateGroups, isScanningDuplicates, duplicateMode, similarityThreshold]);
+
   // Refresh handler
   const handleRefresh = useCallback(() => {
     loadImages();
     deselectAll();
-  }, []);
+    if (filter === 'duplicates') {
+      scanDuplicates(duplicateMode, similarityThreshold);
+    } else {
+      setDuplicateGroups(null);
+    }
+  }, [filter, duplicateMode, similarityThreshold]);
 
   // Get counts for tabs
   const counts = useMemo(() => {
@@ -322,11 +518,20 @@ export const GalleryContainer: React.FC<GalleryContainerProps> = ({ plugin }) =>
       all: images.length,
       inUse: images.filter((img) => !img.isOrphan).length,
       orphan: images.filter((img) => img.isOrphan).length,
+      protected: images.filter((img) => img.isOrphan && img.isProtected).length,
+      duplicates: duplicateGroups ? duplicateGroups.length : null,
+      trash: trashItems.length,
     };
-  }, [images]);
+  }, [images, duplicateGroups, trashItems]);
 
   // Footer text
   const footerText = useMemo(() => {
+    if (filter === 'trash') {
+      return t('trash.count', { count: filteredTrashItems.length });
+    }
+    if (filter === 'duplicates') {
+      return t('duplicates.count', { count: filteredDuplicateGroups.length });
+    }
     const countText = filteredImages.length === 1
       ? t('gallery.imageCount', { count: filteredImages.length })
       : t('gallery.imageCountPlural', { count: filteredImages.length });
@@ -334,7 +539,7 @@ export const GalleryContainer: React.FC<GalleryContainerProps> = ({ plugin }) =>
       ? ` • ${t('gallery.selected', { count: selectedPaths.size })}`
       : '';
     return `${countText}${selectedText}`;
-  }, [filteredImages.length, selectedPaths.size]);
+  }, [filter, filteredTrashItems.length, filteredDuplicateGroups.length, filteredImages.length, selectedPaths.size]);
 
   return (
     <div className="image-master-gallery">
@@ -382,7 +587,7 @@ export const GalleryContainer: React.FC<GalleryContainerProps> = ({ plugin }) =>
       </div>
 
       {/* Filter Tabs */}
-      <FilterTabs filter={filter} onFilterChange={setFilter} counts={counts} />
+      <FilterTabs filter={filter} onFilterChange={handleFilterChange} counts={counts} />
 
       {/* Action Toolbar (shown when items selected) */}
       <ActionToolbar
@@ -397,6 +602,61 @@ export const GalleryContainer: React.FC<GalleryContainerProps> = ({ plugin }) =>
       <div className="gallery-content">
         {isLoading ? (
           <div className="gallery-loading">{t('gallery.loading')}</div>
+        ) : filter === 'duplicates' ? (
+          <>
+            <div className="duplicates-mode-bar">
+              <div className="duplicates-mode">
+                {(['exact', 'similar'] as DuplicateMode[]).map((mode) => (
+                  <button
+                    key={mode}
+                    className={duplicateMode === mode ? 'active' : ''}
+                    onClick={() => handleDuplicateModeChange(mode)}
+                    disabled={isMerging || duplicateMode === mode}
+                  >
+                    {t(mode === 'exact' ? 'duplicates.mode.exact' : 'duplicates.mode.similar')}
+                  </button>
+                ))}
+              </div>
+              {duplicateMode === 'similar' && (
+                <label className="duplicates-threshold">
+                  {t('duplicates.threshold', { distance: similarityThreshold })}
+                  <input
+                    type="range"
+                    min={0}
+                    max={MAX_SIMILARITY_DISTANCE}
+                    step={1}
+                    value={similarityThreshold}
+                    onChange={(e) => setSimilarityThreshold(Number(e.target.value))}
+                    disabled={isMerging}
+                  />
+                </label>
+              )}
+            </div>
+            {isScanningDuplicates || duplicateGroups === null ? (
+              <div className="gallery-loading">{t('duplicates.scanning')}</div>
+            ) : (
+              <DuplicatesList
+                groups={filteredDuplicateGroups}
+                similar={duplicateMode === 'similar'}
+                getImageInfo={getImageInfo}
+                getResourcePath={getResourcePath}
+                pickKeeper={pickKeeper}
+                canMerge={canMerge}
+                onMerge={handleMerge}
+                onOpenNote={handleOpenNote}
+                isBusy={isMerging}
+              />
+            )}
+          </>
+        ) : filter === 'trash' ? (
+          <TrashList
+            items={filteredTrashItems}
+            getResourcePath={getTrashResourcePath}
+            getDaysLeft={getTrashDaysLeft}
+            onRestore={handleRestore}
+            onPurge={handlePurge}
+            isBusy={isTrashBusy}
+          />
         ) : filteredImages.length === 0 ? (
           <div className="gallery-empty">
             {searchQuery
@@ -1,7 +1,7 @@
 import * as React from 'react';
 import { useCallback, useRef, useEffect, useState } from 'react';
 import { FixedSizeGrid, GridChildComponentProps } from 'react-window';
-import { ImageInfo } from '../../types';
+import { ImageInfo, daysSince } from '../../types';
 import { t } from '../../i18n';
 
 interface ImageGridProps {
@@ -202,8 +202,27 @@ export const ImageGrid: React.FC<ImageGridProps> = ({
               loading="lazy"
             />
 
-            {/* Orphan indicator */}
-            {image.isOrphan && (
+            {/* Orphan indicator (protected orphans are kept by an exclusion rule) */}
+            {image.isOrphan && image.isProtected && (
+              <div
+                className="protected-badge"
+                style={{
+                  position: 'absolute',
+                  top: '4px',
+                  right: '4px',
+                  background: 'var(--interactive-accent)',
+                  color: 'var(--text-on-accent)',
+                  padding: '2px 6px',
+                  borderRadius: '4px',
+                  fontSize: '10px',
+                  fontWeight: 'bold',
+                }}
+                title={t('image.protectedTooltip')}
+              >
+                {t('image.protected')}
+              </div>
+            )}
+            {image.isOrphan && !image.isProtected && (
               <div
                 className="orphan-badge"
                 style={{
@@ -217,7 +236,11 @@ export const ImageGrid: React.FC<ImageGridProps> = ({
                   fontSize: '10px',
                   fontWeight: 'bold',
                 }}
-                title={t('image.orphanTooltip')}
+                title={
+                  image.orphanedSince !== undefined
+                    ? t('image.orphanedFor', { count: daysSince(image.orphanedSince) })
+                    : t('image.orphanTooltip')
+                }
               >
                 {t('image.orphan')}
               </div>
@@ -1,7 +1,7 @@
 import * as React from 'react';
 import { useCallback, useRef, useEffect, useState } from 'react';
 import { FixedSizeList, ListChildComponentProps } from 'react-window';
-import { ImageInfo, SortField, SortOrder } from '../../types';
+import { ImageInfo, SortField, SortOrder, daysSince } from '../../types';
 import { t } from '../../i18n';
 
 interface ImageListProps {
@@ -182,8 +182,21 @@ export const ImageList: React.FC<ImageListProps> = ({
             {formatDate(image.created)}
           </div>
           <div className="list-cell status-cell" style={{ width: '70px' }}>
-            {image.isOrphan ? (
-              <span className="status-badge orphan">{t('list.orphan')}</span>
+            {image.isOrphan && image.isProtected ? (
+              <span className="status-badge protected" title={t('image.protectedTooltip')}>
+                {t('image.protected')}
+              </span>
+            ) : image.isOrphan ? (
+              <span
+                className="status-badge orphan"
+                title={
+                  image.orphanedSince !== undefined
+                    ? t('image.orphanedFor', { count: daysSince(image.orphanedSince) })
+                    : t('image.orphanTooltip')
+                }
+              >
+                {t('list.orphan')}
+              </span>
             ) : (
               <span className="status-badge in-use">{t('list.inUse')}</span>
             )}
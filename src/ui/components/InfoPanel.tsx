@@ -1,7 +1,7 @@
 import * as React from 'react';
 import { TFile } from 'obsidian';
 import ImageMasterPlugin from '../../main';
-import { ImageInfo } from '../../types';
+import { ImageInfo, daysSince } from '../../types';
 import { t } from '../../i18n';
 
 interface InfoPanelProps {
@@ -50,10 +50,10 @@ export const InfoPanel: React.FC<InfoPanelProps> = ({
     navigator.clipboard.writeText(image.path);
   };
 
-  const handleCopyLink = () => {
+  const handleCopyLink = async () => {
     const activeFile = plugin.app.workspace.getActiveFile();
     if (activeFile) {
-      const link = plugin.fileManager.formatImageLink(image.path, activeFile);
+      const link = await plugin.fileManager.createImageLink(image.path, activeFile);
       navigator.clipboard.writeText(link);
     } else {
       navigator.clipboard.writeText(`![[${image.path}]]`);
@@ -99,9 +99,18 @@ export const InfoPanel: React.FC<InfoPanelProps> = ({
         <InfoRow label={t('info.modified')} value={formatDate(image.modified)} />
         <InfoRow
           label={t('info.status')}
-          value={image.isOrphan ? t('info.orphan') : t('info.inUse')}
+          value={
+            !image.isOrphan
+              ? t('info.inUse')
+              : image.orphanedSince !== undefined
+              ? t('info.orphanFor', { count: daysSince(image.orphanedSince) })
+              : t('info.orphan')
+          }
           valueStyle={image.isOrphan ? { color: 'var(--text-error)' } : { color: 'var(--text-success)' }}
         />
+        {image.isOrphan && image.isProtected && (
+          <InfoRow label={t('info.protection')} value={t('image.protectedTooltip')} />
+        )}
       </div>
 
       {/* Referenced Notes */}
@@ -109,15 +118,22 @@ export const InfoPanel: React.FC<InfoPanelProps> = ({
         <div style={styles.section}>
           <h6 style={styles.sectionTitle}>{t('info.referencedBy', { count: image.referencedBy.length })}</h6>
           <div style={styles.noteList}>
-            {image.referencedBy.map((notePath) => (
-              <button
-                key={notePath}
-                onClick={() => handleNavigateToNote(notePath)}
-                style={styles.noteLink}
-              >
-                {notePath.split('/').pop()?.replace('.md', '')}
-              </button>
-            ))}
+            {image.referencedBy.map((notePath) => {
+              const properties = plugin.referenceIndex.getReferencingProperties(notePath, image.path);
+              return (
+                <button
+                  key={notePath}
+                  onClick={() => handleNavigateToNote(notePath)}
+                  style={styles.noteLink}
+                  title={notePath}
+                >
+                  {notePath.split('/').pop()?.replace('.md', '')}
+                  {properties.length > 0 && (
+                    <span style={styles.noteProperty}>{t('info.viaProperty', { property: properties.join(', ') })}</span>
+                  )}
+                </button>
+              );
+            })}
           </div>
         </div>
       )}
@@ -136,7 +152,7 @@ export const InfoPanel: React.FC<InfoPanelProps> = ({
         <button onClick={handleOpenInExplorer} style={styles.actionButton} title={t('info.openFolder')}>
           {t('info.openFolder')}
         </button>
-        {image.isOrphan && (
+        {image.isOrphan && !image.isProtected && (
           <button
             onClick={() => onDelete(image.path)}
             style={{ ...styles.actionButton, ...styles.deleteButton }}
@@ -255,6 +271,11 @@ const styles: { [key: string]: React.CSSProperties } = {
     fontSize: '12px',
     color: 'var(--text-accent)',
   },
+  noteProperty: {
+    marginLeft: '6px',
+    color: 'var(--text-muted)',
+    fontSize: '11px',
+  },
   actions: {
     padding: '12px',
     borderTop: '1px solid var(--background-modifier-border)',
@@ -0,0 +1,117 @@
+import * as React from 'react';
+import { useState, useMemo } from 'react';
+import { TrashedImage } from '../../types';
+import { t } from '../../i18n';
+
+interface TrashListProps {
+  items: TrashedImage[];
+  getResourcePath: (item: TrashedImage) => string;
+  getDaysLeft: (item: TrashedImage) => number | null;
+  onRestore: (items: TrashedImage[]) => Promise<void>;
+  onPurge: (items: TrashedImage[]) => Promise<void>;
+  isBusy: boolean;
+}
+
+const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+export const TrashList: React.FC<TrashListProps> = ({
+  items,
+  getResourcePath,
+  getDaysLeft,
+  onRestore,
+  onPurge,
+  isBusy,
+}) => {
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+
+  const selectedItems = useMemo(
+    () => items.filter((item) => selectedIds.has(item.id)),
+    [items, selectedIds]
+  );
+
+  const toggle = (id: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const run = async (action: (items: TrashedImage[]) => Promise<void>, targets: TrashedImage[]) => {
+    await action(targets);
+    setSelectedIds(new Set());
+  };
+
+  if (items.length === 0) {
+    return <div className="gallery-empty">{t('trash.empty')}</div>;
+  }
+
+  return (
+    <div className="trash-list-container">
+      <div className="trash-toolbar">
+        <button
+          className="mod-cta"
+          onClick={() => run(onRestore, selectedItems)}
+          disabled={isBusy || selectedItems.length === 0}
+        >
+          {t('trash.restoreCount', { count: selectedItems.length })}
+        </button>
+        <button
+          className="mod-warning"
+          onClick={() => run(onPurge, selectedItems)}
+          disabled={isBusy || selectedItems.length === 0}
+        >
+          {t('trash.purgeCount', { count: selectedItems.length })}
+        </button>
+        <button className="mod-warning" onClick={() => run(onPurge, items)} disabled={isBusy}>
+          {t('trash.emptyTrash')}
+        </button>
+      </div>
+
+      <div className="trash-list">
+        {items.map((item) => {
+          const daysLeft = getDaysLeft(item);
+          return (
+            <div key={item.id} className={`trash-item ${selectedIds.has(item.id) ? 'selected' : ''}`}>
+              <input
+                type="checkbox"
+                checked={selectedIds.has(item.id)}
+                onChange={() => toggle(item.id)}
+                disabled={isBusy}
+              />
+              <img className="trash-item-thumb" src={getResourcePath(item)} alt={item.originalPath} loading="lazy" />
+              <div className="trash-item-info">
+                <div className="trash-item-path" title={item.originalPath}>
+                  {item.originalPath}
+                </div>
+                <div className="trash-item-meta">
+                  {t('trash.deletedAt', { date: new Date(item.deletedAt).toLocaleString() })}
+                  {' · '}
+                  {formatFileSize(item.size)}
+                  {item.referencedBy.length > 0 && ` · ${t('trash.referencedBy', { count: item.referencedBy.length })}`}
+                  {daysLeft !== null && ` · ${t('trash.daysLeft', { count: daysLeft })}`}
+                </div>
+              </div>
+              <div className="trash-item-actions">
+                <button onClick={() => run(onRestore, [item])} disabled={isBusy}>
+                  {t('trash.restore')}
+                </button>
+                <button className="mod-warning" onClick={() => run(onPurge, [item])} disabled={isBusy}>
+                  {t('trash.purge')}
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,148 @@
+import { App, Modal, Setting } from 'obsidian';
+import { t } from '../../i18n';
+
+export type DuplicateChoice = 'reuse' | 'rename' | 'cancel';
+
+export interface DuplicateDecision {
+  choice: DuplicateChoice;
+  remember: boolean;                // Apply the same choice for the rest of the session
+}
+
+export class DuplicateCompareModal extends Modal {
+  private incomingData: ArrayBuffer;
+  private incomingType: string;
+  private existingPath: string;
+  private referencedBy: string[];
+  private distance: number | null;  // Perceptual-hash distance when the match is only similar
+  private onDecide: (decision: DuplicateDecision) => void;
+  private remember = false;
+  private objectUrl: string | null = null;
+
+  constructor(
+    app: App,
+    incomingData: ArrayBuffer,
+    incomingType: string,
+    existingPath: string,
+    referencedBy: string[],
+    distance: number | null,
+    onDecide: (decision: DuplicateDecision) => void
+  ) {
+    super(app);
+    this.incomingData = incomingData;
+    this.incomingType = incomingType;
+    this.existingPath = existingPath;
+    this.referencedBy = referencedBy;
+    this.distance = distance;
+    this.onDecide = onDecide;
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass('image-master-duplicate-modal');
+
+    if (this.distance === null) {
+      this.titleEl.setText(t('duplicate.title'));
+      contentEl.createEl('p', { text: t('duplicate.desc'), cls: 'duplicate-modal-desc' });
+    } else {
+      this.titleEl.setText(t('duplicate.similarTitle'));
+      contentEl.createEl('p', {
+        text: t('duplicate.similarDesc', { distance: this.distance }),
+        cls: 'duplicate-modal-desc',
+      });
+    }
+
+    // Side-by-side comparison
+    const compare = contentEl.createDiv({ cls: 'duplicate-compare' });
+
+    const incoming = compare.createDiv({ cls: 'duplicate-compare-item' });
+    incoming.createEl('h6', { text: t('duplicate.incoming') });
+    this.objectUrl = URL.createObjectURL(new Blob([this.incomingData], { type: this.incomingType }));
+    incoming.createEl('img', { attr: { src: this.objectUrl } });
+
+    const existing = compare.createDiv({ cls: 'duplicate-compare-item' });
+    existing.createEl('h6', { text: t('duplicate.existing') });
+    existing.createEl('img', { attr: { src: this.app.vault.adapter.getResourcePath(this.existingPath) } });
+    existing.createDiv({ text: this.existingPath, cls: 'duplicate-compare-path' });
+
+    // Notes that reference the existing image
+    const refs = contentEl.createDiv({ cls: 'duplicate-refs' });
+    refs.createEl('h6', { text: t('info.referencedBy', { count: this.referencedBy.length }) });
+    if (this.referencedBy.length === 0) {
+      refs.createDiv({ text: t('duplicate.noReferences'), cls: 'duplicate-refs-empty' });
+    } else {
+      const list = refs.createEl('ul');
+      for (const notePath of this.referencedBy) {
+        list.createEl('li', { text: notePath });
+      }
+    }
+
+    new Setting(contentEl)
+      .setName(t('duplicate.remember'))
+      .addToggle((toggle) =>
+        toggle.setValue(this.remember).onChange((value) => {
+          this.remember = value;
+        })
+      );
+
+    new Setting(contentEl)
+      .addButton((button) =>
+        button
+          .setButtonText(t('duplicate.reuse'))
+          .setCta()
+          .onClick(() => this.decide('reuse'))
+      )
+      .addButton((button) =>
+        button
+          .setButtonText(t('duplicate.saveCopy'))
+          .onClick(() => this.decide('rename'))
+      )
+      .addButton((button) =>
+        button
+          .setButtonText(t('duplicate.cancel'))
+          .onClick(() => this.decide('cancel'))
+      );
+  }
+
+  private decide(choice: DuplicateChoice): void {
+    this.onDecide({ choice, remember: this.remember });
+    this.close();
+  }
+
+  onClose(): void {
+    if (this.objectUrl) {
+      URL.revokeObjectURL(this.objectUrl);
+      this.objectUrl = null;
+    }
+    this.contentEl.empty();
+  }
+}
+
+// Helper function to open the modal and return a promise
+export function askDuplicateAction(
+  app: App,
+  incomingData: ArrayBuffer,
+  incomingType: string,
+  existingPath: string,
+  referencedBy: string[],
+  distance: number | null = null
+): Promise<DuplicateDecision> {
+  return new Promise((resolve) => {
+    let resolved = false;
+    const modal = new DuplicateCompareModal(app, incomingData, incomingType, existingPath, referencedBy, distance, (decision) => {
+      resolved = true;
+      resolve(decision);
+    });
+
+    // Handle close without a choice (Escape or close button) as cancel
+    const originalOnClose = modal.onClose.bind(modal);
+    modal.onClose = () => {
+      originalOnClose();
+      if (!resolved) {
+        resolve({ choice: 'cancel', remember: false });
+      }
+    };
+
+    modal.open();
+  });
+}
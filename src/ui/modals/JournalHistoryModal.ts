@@ -0,0 +1,73 @@
+import { App, Modal, Notice } from 'obsidian';
+import ImageMasterPlugin from '../../main';
+import { JournalEntry } from '../../types';
+import { t } from '../../i18n';
+
+export class JournalHistoryModal extends Modal {
+  private plugin: ImageMasterPlugin;
+  private busy = false;
+
+  constructor(app: App, plugin: ImageMasterPlugin) {
+    super(app);
+    this.plugin = plugin;
+  }
+
+  onOpen(): void {
+    this.titleEl.setText(t('history.title'));
+    this.render();
+  }
+
+  private render(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass('image-master-history-modal');
+
+    const entries = this.plugin.journal.getEntries();
+    if (entries.length === 0) {
+      contentEl.createEl('p', { text: t('history.empty'), cls: 'history-empty' });
+      return;
+    }
+
+    const listEl = contentEl.createDiv({ cls: 'history-entries' });
+    for (const entry of entries) {
+      this.renderEntry(listEl, entry);
+    }
+  }
+
+  private renderEntry(containerEl: HTMLElement, entry: JournalEntry): void {
+    const rowEl = containerEl.createDiv({ cls: 'history-entry' });
+    if (entry.undoneAt) {
+      rowEl.addClass('is-undone');
+    }
+
+    const infoEl = rowEl.createDiv({ cls: 'history-entry-info' });
+    infoEl.createDiv({ text: entry.title, cls: 'history-entry-title' });
+    infoEl.createDiv({
+      text: `${new Date(entry.timestamp).toLocaleString()} · ${t('history.actions', { count: entry.actions.length })}`,
+      cls: 'history-entry-meta',
+    });
+
+    if (entry.undoneAt) {
+      rowEl.createSpan({ text: t('history.undone'), cls: 'history-entry-status' });
+      return;
+    }
+
+    const button = rowEl.createEl('button', { text: t('history.undo') });
+    button.disabled = this.busy;
+    button.addEventListener('click', async () => {
+      this.busy = true;
+      button.disabled = true;
+      try {
+        const { reverted, failed } = await this.plugin.journal.undo(entry.id);
+        new Notice(t('notice.undone', { title: entry.title, reverted, failed }));
+      } finally {
+        this.busy = false;
+        this.render();
+      }
+    });
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+}
@@ -0,0 +1,171 @@
+import { App, Modal, Notice, Setting, TFile } from 'obsidian';
+import ImageMasterPlugin from '../../main';
+import { LinkConversionPlan, LinkFormat } from '../../types';
+import { selectFolder } from './FolderSuggestModal';
+import { t } from '../../i18n';
+
+type ConversionScope = 'note' | 'folder' | 'vault';
+
+// Limit rendered diff lines so huge vaults don't freeze the modal
+const MAX_DIFF_LINES = 300;
+
+export class LinkConvertModal extends Modal {
+  private plugin: ImageMasterPlugin;
+  private conversionScope: ConversionScope;
+  private folderPath = '';
+  private format: LinkFormat;
+  private plans: LinkConversionPlan[] | null = null;
+
+  constructor(app: App, plugin: ImageMasterPlugin) {
+    super(app);
+    this.plugin = plugin;
+    this.conversionScope = app.workspace.getActiveFile() ? 'note' : 'vault';
+    this.format = plugin.settings.linkFormat === 'template' ? 'wikilink-path' : plugin.settings.linkFormat;
+  }
+
+  onOpen(): void {
+    this.titleEl.setText(t('convert.title'));
+    this.render();
+  }
+
+  private render(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass('image-master-convert-modal');
+
+    new Setting(contentEl)
+      .setName(t('convert.scope'))
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption('note', t('convert.scope.note'))
+          .addOption('folder', t('convert.scope.folder'))
+          .addOption('vault', t('convert.scope.vault'))
+          .setValue(this.conversionScope)
+          .onChange((value) => {
+            this.conversionScope = value as ConversionScope;
+            this.plans = null;
+            this.render();
+          })
+      );
+
+    if (this.conversionScope === 'folder') {
+      new Setting(contentEl)
+        .setName(t('convert.folder'))
+        .setDesc(this.folderPath || '/')
+        .addButton((button) =>
+          button.setButtonText(t('convert.chooseFolder')).onClick(async () => {
+            const folder = await selectFolder(this.app);
+            if (folder !== null) {
+              this.folderPath = folder === '/' ? '' : folder;
+              this.plans = null;
+              this.render();
+            }
+          })
+        );
+    }
+
+    new Setting(contentEl)
+      .setName(t('convert.format'))
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption('wikilink', t('settings.linkFormat.wikilink'))
+          .addOption('wikilink-path', t('settings.linkFormat.wikilinkPath'))
+          .addOption('markdown-relative', t('settings.linkFormat.markdownRelative'))
+          .addOption('markdown-absolute', t('settings.linkFormat.markdownAbsolute'))
+          .setValue(this.format)
+          .onChange((value) => {
+            this.format = value as LinkFormat;
+            this.plans = null;
+            this.render();
+          })
+      );
+
+    const actions = new Setting(contentEl).addButton((button) =>
+      button.setButtonText(t('convert.preview')).onClick(async () => {
+        button.setDisabled(true);
+        this.plans = await this.plugin.linkUpdater.planLinkConversion(this.getNotesInScope(), this.format);
+        this.render();
+      })
+    );
+
+    if (this.plans) {
+      const plans = this.plans;
+      const changeCount = plans.reduce((sum, plan) => sum + plan.changes.length, 0);
+
+      actions.addButton((button) =>
+        button
+          .setButtonText(t('convert.apply'))
+          .setCta()
+          .setDisabled(changeCount === 0)
+          .onClick(async () => {
+            button.setDisabled(true);
+            const updated = await this.plugin.linkUpdater.applyLinkConversion(plans, this.format);
+            new Notice(t('notice.linksConverted', { count: updated }));
+            this.close();
+          })
+      );
+
+      this.renderDiff(contentEl, plans, changeCount);
+    }
+  }
+
+  /**
+   * Render the dry-run summary and a per-note diff of the planned rewrites
+   */
+  private renderDiff(containerEl: HTMLElement, plans: LinkConversionPlan[], changeCount: number): void {
+    const notesToChange = plans.filter((plan) => plan.changes.length > 0).length;
+    const unresolvedCount = plans.reduce((sum, plan) => sum + plan.unresolved.length, 0);
+
+    containerEl.createEl('p', {
+      text: t('convert.summary', { links: changeCount, notes: notesToChange, unresolved: unresolvedCount }),
+      cls: 'convert-summary',
+    });
+
+    const diffEl = containerEl.createDiv({ cls: 'convert-diff' });
+    let lines = 0;
+
+    for (const plan of plans) {
+      if (lines >= MAX_DIFF_LINES) break;
+
+      diffEl.createDiv({ text: plan.notePath, cls: 'convert-diff-note' });
+      for (const change of plan.changes) {
+        if (lines >= MAX_DIFF_LINES) break;
+        diffEl.createDiv({ text: `- ${change.from}`, cls: 'convert-diff-removed' });
+        diffEl.createDiv({ text: `+ ${change.to}`, cls: 'convert-diff-added' });
+        lines++;
+      }
+      for (const link of plan.unresolved) {
+        if (lines >= MAX_DIFF_LINES) break;
+        diffEl.createDiv({ text: `? ${link}`, cls: 'convert-diff-unresolved' });
+        lines++;
+      }
+    }
+
+    const total = changeCount + unresolvedCount;
+    if (total > lines) {
+      diffEl.createDiv({ text: t('convert.more', { count: total - lines }), cls: 'convert-diff-more' });
+    }
+  }
+
+  private getNotesInScope(): TFile[] {
+    const notes = this.app.vault.getMarkdownFiles();
+
+    switch (this.conversionScope) {
+      case 'note': {
+        const activeFile = this.app.workspace.getActiveFile();
+        return activeFile && activeFile.extension === 'md' ? [activeFile] : [];
+      }
+      case 'folder':
+        return this.folderPath
+          ? notes.filter((note) => note.path.startsWith(this.folderPath + '/'))
+          : notes;
+      case 'vault':
+      default:
+        return notes;
+    }
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+}
@@ -0,0 +1,162 @@
+import { App, Modal, Setting } from 'obsidian';
+import { OperationPlan, PlanStep, StepResult } from '../../types';
+import { t } from '../../i18n';
+
+// Limit rendered steps so huge plans don't freeze the modal
+const MAX_STEP_ROWS = 300;
+
+export class OperationPlanModal extends Modal {
+  private plan: OperationPlan;
+  private run: () => Promise<StepResult[]>;
+  private onDone: (results: StepResult[] | null) => void;
+  private results: StepResult[] | null = null;
+  private running: Promise<StepResult[]> | null = null;
+
+  constructor(
+    app: App,
+    plan: OperationPlan,
+    run: () => Promise<StepResult[]>,
+    onDone: (results: StepResult[] | null) => void
+  ) {
+    super(app);
+    this.plan = plan;
+    this.run = run;
+    this.onDone = onDone;
+  }
+
+  onOpen(): void {
+    this.titleEl.setText(this.plan.title);
+    this.render();
+  }
+
+  private render(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass('image-master-plan-modal');
+
+    const steps = this.plan.steps;
+    const count = (type: PlanStep['type']) => steps.filter((step) => step.type === type).length;
+
+    if (this.results) {
+      const results = this.results;
+      const countStatus = (status: StepResult['status']) => results.filter((r) => r.status === status).length;
+      contentEl.createEl('p', {
+        text: t('plan.result', {
+          applied: countStatus('applied'),
+          skipped: countStatus('skipped'),
+          failed: countStatus('failed'),
+        }),
+        cls: 'plan-summary',
+      });
+    } else {
+      contentEl.createEl('p', {
+        text: t('plan.summary', {
+          moves: count('rename'),
+          folders: count('createFolder'),
+          rewrites: count('rewriteNote'),
+          deletes: count('delete'),
+        }),
+        cls: 'plan-summary',
+      });
+
+      const conflicts = steps.filter((step) => step.conflict).length;
+      if (conflicts > 0) {
+        contentEl.createEl('p', { text: t('plan.conflicts', { count: conflicts }), cls: 'plan-conflicts' });
+      }
+    }
+
+    this.renderSteps(contentEl);
+
+    const actions = new Setting(contentEl);
+    if (this.results) {
+      actions.addButton((button) =>
+        button.setButtonText(t('plan.close')).setCta().onClick(() => this.close())
+      );
+      return;
+    }
+
+    actions
+      .addButton((button) =>
+        button
+          .setButtonText(t('plan.run'))
+          .setCta()
+          .setDisabled(this.running !== null || steps.every((step) => step.conflict))
+          .onClick(async () => {
+            button.setDisabled(true).setButtonText(t('plan.running'));
+            this.running = this.run();
+            this.results = await this.running;
+            this.running = null;
+            this.render();
+          })
+      )
+      .addButton((button) =>
+        button
+          .setButtonText(t('plan.cancel'))
+          .onClick(() => this.close())
+      );
+  }
+
+  /**
+   * Render one row per step, with its conflict or execution status
+   */
+  private renderSteps(containerEl: HTMLElement): void {
+    const listEl = containerEl.createDiv({ cls: 'plan-steps' });
+    const rows: Array<{ step: PlanStep; result?: StepResult }> = this.results
+      ? this.results.map((result) => ({ step: result.step, result }))
+      : this.plan.steps.map((step) => ({ step }));
+
+    for (const { step, result } of rows.slice(0, MAX_STEP_ROWS)) {
+      const rowEl = listEl.createDiv({ cls: `plan-step plan-step-${step.type}` });
+      if (result) {
+        rowEl.addClass(`is-${result.status}`);
+        rowEl.createSpan({ text: t(`plan.status.${result.status}` as const), cls: 'plan-step-status' });
+      }
+
+      rowEl.createSpan({ text: this.describeStep(step), cls: 'plan-step-text' });
+
+      const note = result?.message ?? step.conflict;
+      if (note) {
+        rowEl.createSpan({ text: note, cls: 'plan-step-note' });
+      }
+    }
+
+    if (rows.length > MAX_STEP_ROWS) {
+      listEl.createDiv({ text: t('convert.more', { count: rows.length - MAX_STEP_ROWS }), cls: 'plan-step-more' });
+    }
+  }
+
+  private describeStep(step: PlanStep): string {
+    switch (step.type) {
+      case 'createFolder':
+        return t('plan.step.createFolder', { path: step.path });
+      case 'rename':
+        return t('plan.step.rename', { path: step.path, newPath: step.newPath ?? '' });
+      case 'rewriteNote':
+        return t('plan.step.rewriteNote', { path: step.path, image: step.newImagePath ?? '' });
+      case 'delete':
+        return t('plan.step.delete', { path: step.path });
+    }
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+
+    // Closed while running: report once the plan has finished
+    if (this.running) {
+      this.running.then((results) => this.onDone(results));
+    } else {
+      this.onDone(this.results);
+    }
+  }
+}
+
+// Helper function to review a plan and return the results (null if cancelled)
+export function reviewOperationPlan(
+  app: App,
+  plan: OperationPlan,
+  run: () => Promise<StepResult[]>
+): Promise<StepResult[] | null> {
+  return new Promise((resolve) => {
+    new OperationPlanModal(app, plan, run, resolve).open();
+  });
+}